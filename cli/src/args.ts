@@ -0,0 +1,114 @@
+// Command-line parsing for `removebg <input...> <output-dir> [options]`
+import { parseArgs } from 'node:util';
+import type { PhotoroomFormat, PhotoroomSize } from '../../src/utils/photoroomAPI';
+
+export type CliProvider = 'photoroom' | 'local';
+
+export interface CliOptions {
+  // Directories, files or glob patterns
+  inputs: string[];
+  outputDir: string;
+  provider: CliProvider;
+  format: PhotoroomFormat;
+  concurrency: number;
+  // Reprocess files whose output already exists
+  force: boolean;
+  // .json or .csv; defaults to removebg-report.json in the output directory
+  reportPath: string | null;
+  size: PhotoroomSize;
+  bgColor: string | null;
+  apiKey: string;
+  baseUrl: string | undefined;
+  preset: string | null;
+}
+
+export const USAGE = `Usage: removebg <input...> <output-dir> [options]
+
+Inputs can be directories (searched recursively), files or glob patterns
+("./photos/**/*.jpg"). Outputs keep the input folder structure. Files whose
+output already exists are skipped, so an interrupted run resumes where it stopped.
+
+Options:
+  --provider <photoroom|local>   Segmentation engine (default: photoroom; local reads
+                                 png and jpg inputs only)
+  --format <png|jpg|webp>        Output format (default: png; local supports png and jpg)
+  --concurrency <n>              Files processed in parallel (default: 4)
+  --force                        Reprocess files that already have an output
+  --report <file.json|file.csv>  Report path (default: <output-dir>/removebg-report.json)
+  --size <preview|medium|hd|full>  Photoroom output size (default: full)
+  --bg-color <color>             Photoroom background color instead of transparency
+  --preset <id>                  Local pipeline preset (see the app's Local AI Settings)
+  -h, --help                     Show this help
+
+Environment:
+  PHOTOROOM_API_KEY              Required for --provider photoroom (unless using a proxy)
+  PHOTOROOM_BASE_URL             Photoroom endpoint or a proxy from server/
+`;
+
+export class UsageError extends Error {}
+
+const FORMATS: PhotoroomFormat[] = ['png', 'jpg', 'webp'];
+const SIZES: PhotoroomSize[] = ['preview', 'medium', 'hd', 'full'];
+
+function oneOf<T extends string>(name: string, value: string, allowed: T[]): T {
+  if (!allowed.includes(value as T)) {
+    throw new UsageError(`--${name} must be one of ${allowed.join(', ')}, got "${value}"`);
+  }
+  return value as T;
+}
+
+// Returns null when help was requested
+export function parseCliArgs(argv: string[], env: NodeJS.ProcessEnv = process.env): CliOptions | null {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      provider: { type: 'string', default: 'photoroom' },
+      format: { type: 'string', default: 'png' },
+      concurrency: { type: 'string', default: '4' },
+      force: { type: 'boolean', default: false },
+      report: { type: 'string' },
+      size: { type: 'string', default: 'full' },
+      'bg-color': { type: 'string' },
+      preset: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  if (values.help) return null;
+
+  if (positionals.length < 2) {
+    throw new UsageError('Expected at least one input and an output directory');
+  }
+
+  const provider = oneOf('provider', values.provider!, ['photoroom', 'local']);
+  const format = oneOf('format', values.format!, FORMATS);
+  if (provider === 'local' && format === 'webp') {
+    throw new UsageError('--provider local writes png or jpg only');
+  }
+
+  const concurrency = Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new UsageError(`--concurrency must be a positive integer, got "${values.concurrency}"`);
+  }
+
+  const baseUrl = env.PHOTOROOM_BASE_URL || undefined;
+  const apiKey = env.PHOTOROOM_API_KEY ?? '';
+  if (provider === 'photoroom' && !apiKey && !baseUrl) {
+    throw new UsageError('Set PHOTOROOM_API_KEY (or PHOTOROOM_BASE_URL for a proxy) to use Photoroom');
+  }
+
+  return {
+    inputs: positionals.slice(0, -1),
+    outputDir: positionals[positionals.length - 1],
+    provider,
+    format,
+    concurrency,
+    force: values.force!,
+    reportPath: values.report ?? null,
+    size: oneOf('size', values.size!, SIZES),
+    bgColor: values['bg-color'] ?? null,
+    apiKey,
+    baseUrl,
+    preset: values.preset ?? null,
+  };
+}
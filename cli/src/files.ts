@@ -0,0 +1,66 @@
+// Expands the command-line inputs into a list of files and their output paths
+import { stat } from 'node:fs/promises';
+import path from 'node:path';
+import fg from 'fast-glob';
+
+export interface FileJob {
+  input: string;
+  output: string;
+  // Path relative to the input root, used in logs and reports
+  relative: string;
+}
+
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'webp'];
+const IMAGE_PATTERN = `**/*.{${IMAGE_EXTENSIONS.join(',')}}`;
+
+export function isImagePath(file: string): boolean {
+  return IMAGE_EXTENSIONS.includes(path.extname(file).slice(1).toLowerCase());
+}
+
+// Leading path segments without glob syntax, e.g. "photos/2024" for "photos/2024/**/*.jpg"
+function staticBase(pattern: string): string {
+  const segments = pattern.split(/[\\/]/);
+  const index = segments.findIndex(segment => /[*?[\]{}!()]/.test(segment));
+  return segments.slice(0, index === -1 ? segments.length - 1 : index).join('/') || '.';
+}
+
+async function expandInput(input: string): Promise<{ base: string; files: string[] }> {
+  const stats = await stat(input).catch(() => null);
+  if (stats?.isDirectory()) {
+    const files = await fg(IMAGE_PATTERN, { cwd: input, absolute: true, caseSensitiveMatch: false, onlyFiles: true });
+    return { base: input, files };
+  }
+  if (stats?.isFile()) {
+    return { base: path.dirname(input), files: [path.resolve(input)] };
+  }
+  const files = await fg(input.replace(/\\/g, '/'), { absolute: true, caseSensitiveMatch: false, onlyFiles: true });
+  return { base: staticBase(input), files: files.filter(isImagePath) };
+}
+
+export async function collectJobs(inputs: string[], outputDir: string, format: string): Promise<FileJob[]> {
+  const outputRoot = path.resolve(outputDir);
+  const seen = new Set<string>();
+  const outputs = new Set<string>();
+  const jobs: FileJob[] = [];
+
+  for (const input of inputs) {
+    const { base, files } = await expandInput(input);
+    for (const file of files.sort()) {
+      const absolute = path.resolve(file);
+      // Skip duplicates, and earlier outputs when writing into the input folder
+      if (seen.has(absolute) || absolute.startsWith(outputRoot + path.sep)) continue;
+      seen.add(absolute);
+
+      const relative = path.relative(path.resolve(base), absolute);
+      const parsed = path.parse(relative);
+      let output = path.join(outputRoot, parsed.dir, `${parsed.name}.${format}`);
+      // photo.jpg and photo.png would both become photo.png
+      if (outputs.has(output)) {
+        output = path.join(outputRoot, parsed.dir, `${parsed.name}-${parsed.ext.slice(1)}.${format}`);
+      }
+      outputs.add(output);
+      jobs.push({ input: absolute, output, relative });
+    }
+  }
+  return jobs;
+}
@@ -0,0 +1,132 @@
+#!/usr/bin/env node
+// removebg: bulk background removal over folders of images
+import { access, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { CliOptions, parseCliArgs, USAGE, UsageError } from './args';
+import { collectJobs, FileJob } from './files';
+import { createLocalProcessor, createPhotoroomProcessor, LOCAL_INPUT_EXTENSIONS, Processor } from './processors';
+import { ReportEntry, summarize, writeReport } from './report';
+
+function log(message: string) {
+  console.error(message);
+}
+
+async function exists(file: string): Promise<boolean> {
+  return access(file).then(() => true, () => false);
+}
+
+async function processJob(job: FileJob, processor: Processor, options: CliOptions, signal: AbortSignal): Promise<ReportEntry> {
+  const entry = { input: job.input, output: job.output };
+  if (!options.force && await exists(job.output)) return { ...entry, status: 'skipped' };
+
+  const started = Date.now();
+  try {
+    const result = await processor(await readFile(job.input), job.input, signal);
+    await mkdir(path.dirname(job.output), { recursive: true });
+    // Written under a temporary name first, so an interrupted run never leaves
+    // a truncated file that the next run would mistake for finished work
+    const partial = `${job.output}.partial`;
+    await writeFile(partial, result);
+    await rename(partial, job.output);
+    return { ...entry, status: 'done', durationMs: Date.now() - started, bytes: result.length };
+  } catch (error) {
+    return {
+      ...entry,
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - started,
+    };
+  }
+}
+
+async function run(options: CliOptions): Promise<number> {
+  const processor = options.provider === 'photoroom'
+    ? createPhotoroomProcessor(options, log)
+    : createLocalProcessor(options);
+
+  const found = await collectJobs(options.inputs, options.outputDir, options.format);
+  // Reported up front rather than failing one by one
+  const jobs = options.provider === 'local'
+    ? found.filter(job => LOCAL_INPUT_EXTENSIONS.includes(path.extname(job.input).slice(1).toLowerCase()))
+    : found;
+  if (jobs.length < found.length) {
+    const unsupported = found.length - jobs.length;
+    log(`Skipping ${unsupported} WebP ${unsupported === 1 ? 'file' : 'files'}: --provider local reads png and jpg only`);
+  }
+  if (jobs.length === 0) {
+    if (found.length === 0) log('No images found (looked for jpg, jpeg, png and webp files).');
+    return 1;
+  }
+  log(`Processing ${jobs.length} ${jobs.length === 1 ? 'image' : 'images'} with ${options.provider} (concurrency ${options.concurrency})`);
+
+  const startedAt = new Date();
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    log('Interrupted, waiting for running requests to stop. Rerun the same command to resume.');
+    controller.abort();
+  });
+
+  const entries: ReportEntry[] = [];
+  let next = 0;
+  const worker = async () => {
+    while (!controller.signal.aborted && next < jobs.length) {
+      const job = jobs[next++];
+      const entry = await processJob(job, processor, options, controller.signal);
+      entries.push(entry);
+      const detail = entry.status === 'failed' ? ` (${entry.error})` : '';
+      log(`[${entries.length}/${jobs.length}] ${entry.status.padEnd(7)} ${job.relative}${detail}`);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(options.concurrency, jobs.length) }, worker));
+
+  const interrupted = controller.signal.aborted;
+  const counts = summarize(entries);
+  const reportPath = options.reportPath ?? path.join(options.outputDir, 'removebg-report.json');
+  await writeReport(reportPath, {
+    provider: options.provider,
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    interrupted,
+    ...counts,
+  }, entries);
+
+  log(`Done: ${counts.done} processed, ${counts.skipped} skipped, ${counts.failed} failed` +
+    `${interrupted ? `, ${jobs.length - entries.length} not started` : ''}. Report: ${reportPath}`);
+  if (interrupted) return 130;
+  return counts.failed > 0 ? 1 : 0;
+}
+
+async function main(): Promise<number> {
+  let options: CliOptions | null;
+  try {
+    options = parseCliArgs(process.argv.slice(2));
+  } catch (error) {
+    // parseArgs throws TypeErrors for unknown or malformed flags
+    if (error instanceof UsageError || error instanceof TypeError) {
+      log(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    throw error;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  try {
+    return await run(options);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      log(error.message);
+      return 2;
+    }
+    throw error;
+  }
+}
+
+main().then((code) => {
+  process.exitCode = code;
+}, (error) => {
+  log(error instanceof Error ? error.stack ?? error.message : String(error));
+  process.exitCode = 1;
+});
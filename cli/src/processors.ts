@@ -0,0 +1,100 @@
+// Turns one input file into the bytes of its cutout
+import path from 'node:path';
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import { DEFAULT_SEGMENT_OPTIONS, PhotoroomAPI, SegmentOptions } from '../../src/utils/photoroomAPI';
+import { applyMask, RasterImage } from '../../src/utils/imageData';
+import { runSegmentationPipeline } from '../../src/utils/segmentationFilters';
+import { DEFAULT_SEGMENTATION_OPTIONS, SEGMENTATION_PRESETS } from '../../src/utils/segmentationOptions';
+import { UsageError, type CliOptions } from './args';
+
+export type Processor = (data: Buffer, input: string, signal: AbortSignal) => Promise<Buffer>;
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+// What decode() can read; the pure-JS decoders have no WebP support
+export const LOCAL_INPUT_EXTENSIONS = ['png', 'jpg', 'jpeg'];
+
+const JPEG_QUALITY = 92;
+// jpeg-js refuses images needing more than this by default
+const JPEG_MAX_MEMORY_MB = 2048;
+
+function extension(file: string): string {
+  return path.extname(file).slice(1).toLowerCase();
+}
+
+function decode(data: Buffer, file: string): RasterImage {
+  switch (extension(file)) {
+    case 'png': {
+      const png = PNG.sync.read(data);
+      return { width: png.width, height: png.height, data: new Uint8ClampedArray(png.data) };
+    }
+    case 'jpg':
+    case 'jpeg': {
+      const image = jpeg.decode(data, { useTArray: true, formatAsRGBA: true, maxMemoryUsageInMB: JPEG_MAX_MEMORY_MB });
+      return { width: image.width, height: image.height, data: new Uint8ClampedArray(image.data) };
+    }
+    default:
+      throw new Error(`The local provider reads PNG and JPEG only, not ${extension(file).toUpperCase()}`);
+  }
+}
+
+function encode(image: RasterImage, format: string): Buffer {
+  if (format === 'jpg') {
+    // No transparency in JPEG: flatten onto white
+    const data = Buffer.alloc(image.data.length);
+    for (let i = 0; i < image.data.length; i += 4) {
+      const alpha = image.data[i + 3] / 255;
+      data[i] = image.data[i] * alpha + 255 * (1 - alpha);
+      data[i + 1] = image.data[i + 1] * alpha + 255 * (1 - alpha);
+      data[i + 2] = image.data[i + 2] * alpha + 255 * (1 - alpha);
+      data[i + 3] = 255;
+    }
+    return jpeg.encode({ width: image.width, height: image.height, data }, JPEG_QUALITY).data;
+  }
+  const png = new PNG({ width: image.width, height: image.height });
+  png.data = Buffer.from(image.data.buffer, image.data.byteOffset, image.data.byteLength);
+  return PNG.sync.write(png);
+}
+
+export function createPhotoroomProcessor(options: CliOptions, log: (message: string) => void): Processor {
+  const api = new PhotoroomAPI(options.apiKey, { baseUrl: options.baseUrl });
+  const segment: SegmentOptions = {
+    ...DEFAULT_SEGMENT_OPTIONS,
+    format: options.format,
+    size: options.size,
+    bgColor: options.bgColor,
+  };
+
+  return async (data, input, signal) => {
+    const file = new File([new Uint8Array(data)], path.basename(input), { type: MIME_TYPES[extension(input)] });
+    const blob = await api.removeBackgroundToBlob(file, segment, {
+      signal,
+      onRetry: ({ attempt, delayMs, error }) => {
+        log(`${path.basename(input)}: ${error.message} Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1})`);
+      },
+    });
+    return Buffer.from(await blob.arrayBuffer());
+  };
+}
+
+// The same filter pipeline the app runs in its worker, on decoded pixels
+export function createLocalProcessor(options: CliOptions): Processor {
+  const preset = options.preset ? SEGMENTATION_PRESETS.find(candidate => candidate.id === options.preset) : null;
+  if (options.preset && !preset) {
+    throw new UsageError(`Unknown preset "${options.preset}"; choose one of ${SEGMENTATION_PRESETS.map(p => p.id).join(', ')}`);
+  }
+  const segmentation = preset?.options ?? DEFAULT_SEGMENTATION_OPTIONS;
+
+  return async (data, input, signal) => {
+    const image = decode(data, input);
+    if (signal.aborted) throw new DOMException('Processing cancelled', 'AbortError');
+    const mask = runSegmentationPipeline(image, segmentation);
+    return encode(applyMask(image, mask), options.format);
+  };
+}
@@ -0,0 +1,55 @@
+// Per-file outcome of a run, written as JSON or CSV
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+export type ReportStatus = 'done' | 'skipped' | 'failed';
+
+export interface ReportEntry {
+  input: string;
+  output: string;
+  status: ReportStatus;
+  error?: string;
+  durationMs?: number;
+  bytes?: number;
+}
+
+export interface ReportSummary {
+  provider: string;
+  startedAt: string;
+  finishedAt: string;
+  // Stopped early by Ctrl+C; rerun the same command to continue
+  interrupted: boolean;
+  total: number;
+  done: number;
+  skipped: number;
+  failed: number;
+}
+
+export function summarize(entries: ReportEntry[]): Pick<ReportSummary, 'total' | 'done' | 'skipped' | 'failed'> {
+  return {
+    total: entries.length,
+    done: entries.filter(entry => entry.status === 'done').length,
+    skipped: entries.filter(entry => entry.status === 'skipped').length,
+    failed: entries.filter(entry => entry.status === 'failed').length,
+  };
+}
+
+function csvField(value: string | number | undefined): string {
+  if (value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(entries: ReportEntry[]): string {
+  const columns: (keyof ReportEntry)[] = ['input', 'output', 'status', 'error', 'durationMs', 'bytes'];
+  const rows = entries.map(entry => columns.map(column => csvField(entry[column])).join(','));
+  return [columns.join(','), ...rows].join('\n') + '\n';
+}
+
+export async function writeReport(file: string, summary: ReportSummary, entries: ReportEntry[]): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  const content = path.extname(file).toLowerCase() === '.csv'
+    ? toCsv(entries)
+    : JSON.stringify({ ...summary, files: entries }, null, 2) + '\n';
+  await writeFile(file, content);
+}
@@ -0,0 +1,49 @@
+// Proxy settings, read from the environment
+
+export interface ProxyConfig {
+  port: number;
+  // Server-held Photoroom key; never sent to browsers
+  photoroomApiKey: string;
+  // Upstream origin, e.g. https://sdk.photoroom.com or a local stub
+  upstreamUrl: string;
+  // Requests per client per minute
+  rateLimitPerMinute: number;
+  // Successful segmentations per client per UTC day
+  dailyQuota: number;
+  maxUploadBytes: number;
+  // Origins allowed by CORS; ['*'] allows any
+  allowedOrigins: string[];
+  // Take the client address from X-Forwarded-For (only behind a trusted proxy)
+  trustProxy: boolean;
+  // JSON-lines usage log; empty logs to stdout
+  usageLogPath: string;
+}
+
+function numberFromEnv(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const raw = env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative number, got "${raw}"`);
+  }
+  return value;
+}
+
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ProxyConfig {
+  const photoroomApiKey = env.PHOTOROOM_API_KEY ?? '';
+  if (!photoroomApiKey) {
+    throw new Error('PHOTOROOM_API_KEY is required');
+  }
+
+  return {
+    port: numberFromEnv(env, 'PORT', 8787),
+    photoroomApiKey,
+    upstreamUrl: (env.PHOTOROOM_UPSTREAM_URL ?? 'https://sdk.photoroom.com').replace(/\/+$/, ''),
+    rateLimitPerMinute: numberFromEnv(env, 'RATE_LIMIT_PER_MINUTE', 20),
+    dailyQuota: numberFromEnv(env, 'DAILY_QUOTA', 200),
+    maxUploadBytes: numberFromEnv(env, 'MAX_UPLOAD_BYTES', 25 * 1024 * 1024),
+    allowedOrigins: (env.ALLOWED_ORIGINS ?? '*').split(',').map(origin => origin.trim()).filter(Boolean),
+    trustProxy: env.TRUST_PROXY === 'true',
+    usageLogPath: env.USAGE_LOG_PATH ?? '',
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { isPrivateAddress } from './imageFetch.js';
+
+describe('isPrivateAddress', () => {
+  it.each([
+    ['loopback', '127.0.0.1'],
+    ['private network', '10.1.2.3'],
+    ['private network', '192.168.0.10'],
+    ['link-local', '169.254.169.254'],
+    ['carrier-grade NAT', '100.64.0.1'],
+    ['unspecified', '0.0.0.0'],
+  ])('rejects IPv4 %s %s', (_, address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each([
+    ['unspecified', '::'],
+    ['loopback', '::1'],
+    ['IPv4-mapped', '::ffff:127.0.0.1'],
+    ['IPv4-mapped in hex', '::ffff:7f00:1'],
+    ['IPv4-compatible', '::127.0.0.1'],
+    ['IPv4-compatible in hex', '::7f00:1'],
+    ['NAT64', '64:ff9b::10.0.0.1'],
+    ['NAT64 in hex', '64:ff9b::a9fe:a9fe'],
+    ['local-use NAT64', '64:ff9b:1::1'],
+    ['6to4 of a private address', '2002:c0a8:1::1'],
+    ['6to4 of loopback', '2002:7f00:1::'],
+    ['discard-only', '100::1'],
+    ['Teredo', '2001:0:4136:e378:8000:63bf:3fff:fdd2'],
+    ['documentation', '2001:db8::1'],
+    ['documentation', '3fff::1'],
+    ['unique local', 'fd12:3456::1'],
+    ['link-local', 'fe80::1'],
+    ['link-local with a zone', 'fe80::1%eth0'],
+    ['multicast', 'ff02::1'],
+  ])('rejects IPv6 %s %s', (_, address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each([
+    '93.184.215.14',
+    '8.8.8.8',
+    '2606:4700:4700::1111',
+    '2a00:1450:4001:82a::200e',
+    '::ffff:93.184.215.14',
+    '64:ff9b::8.8.8.8',
+    '2002:5db8:d70e::1',
+  ])('allows the public address %s', (address) => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+
+  it('rejects anything that is not an IP address', () => {
+    expect(isPrivateAddress('localhost')).toBe(true);
+  });
+});
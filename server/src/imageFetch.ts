@@ -0,0 +1,175 @@
+// Fetches an image from another site on the browser's behalf, for pages that
+// don't send CORS headers. Only public http(s) addresses are reachable, so the
+// proxy can't be used to probe the network it runs in. The address check runs
+// inside the socket's DNS lookup, so the checked address is the one connected
+// to and a rebinding DNS server can't swap in a private one afterwards.
+import { lookup } from 'node:dns';
+import { IncomingMessage, request as httpRequest } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { isIP, LookupFunction } from 'node:net';
+
+export class ImageFetchError extends Error {
+  constructor(readonly status: number, readonly code: string, message: string) {
+    super(message);
+    this.name = 'ImageFetchError';
+  }
+}
+
+export interface FetchedImage {
+  body: Buffer;
+  contentType: string;
+}
+
+const MAX_REDIRECTS = 3;
+const FETCH_TIMEOUT_MS = 15_000;
+
+function isPrivateIPv4(address: string): boolean {
+  const [a, b] = address.split('.').map(Number);
+  return a === 0 || a === 10 || a === 127 || a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19));
+}
+
+function embeddedIPv4(high: number, low: number): string {
+  return `${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`;
+}
+
+// The eight 16-bit groups of an IPv6 address, or null if it isn't one
+function ipv6Groups(address: string): number[] | null {
+  let text = address.split('%')[0].toLowerCase();
+  if (isIP(text) !== 6) return null;
+  // A trailing dotted IPv4 part stands for the last two groups
+  const dotted = text.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(2).map(Number);
+    text = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = text.split('::');
+  const parse = (part: string) => (part ? part.split(':').map(group => parseInt(group, 16)) : []);
+  if (tail === undefined) return parse(head);
+  const [left, right] = [parse(head), parse(tail)];
+  return [...left, ...new Array<number>(8 - left.length - right.length).fill(0), ...right];
+}
+
+export function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) return isPrivateIPv4(address);
+  const groups = ipv6Groups(address);
+  if (!groups) return true;
+  const [g0, g1, g2, , , g5, g6, g7] = groups;
+
+  // IPv4-mapped (::ffff:a.b.c.d) and IPv4-compatible (::a.b.c.d); the latter
+  // also covers :: and ::1
+  if (groups.slice(0, 5).every(group => group === 0) && (g5 === 0 || g5 === 0xffff)) {
+    return isPrivateIPv4(embeddedIPv4(g6, g7));
+  }
+  // NAT64 (64:ff9b::a.b.c.d) reaches the IPv4 address it embeds
+  if (g0 === 0x64 && g1 === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+    return isPrivateIPv4(embeddedIPv4(g6, g7));
+  }
+  // Only global unicast (2000::/3) is public. That rules out loopback,
+  // link-local, unique local, multicast, discard-only (100::/64) and
+  // local-use NAT64 (64:ff9b:1::/48) addresses.
+  if ((g0 & 0xe000) !== 0x2000) return true;
+  // 6to4 (2002:aabb:ccdd::) routes to the IPv4 address in its prefix
+  if (g0 === 0x2002) return isPrivateIPv4(embeddedIPv4(g1, g2));
+  // Teredo and other protocol assignments (2001::/23), and documentation
+  // (2001:db8::/32, 3fff::/20)
+  return (g0 === 0x2001 && (g1 < 0x200 || g1 === 0xdb8)) || (g0 === 0x3fff && g1 < 0x1000);
+}
+
+function forbiddenHost(): ImageFetchError {
+  return new ImageFetchError(403, 'forbidden_host', 'Private and local addresses cannot be fetched');
+}
+
+// Resolves like the default lookup, but fails if any address is private
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error || addresses.length === 0) {
+      return callback(new ImageFetchError(400, 'unknown_host', `Could not resolve ${hostname}`), '');
+    }
+    if (addresses.some(entry => isPrivateAddress(entry.address))) return callback(forbiddenHost(), '');
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+function get(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return Promise.reject(new ImageFetchError(400, 'invalid_url', 'Only http and https URLs can be fetched'));
+  }
+  // IP literals skip the lookup, so they are checked here
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && isPrivateAddress(host)) return Promise.reject(forbiddenHost());
+
+  const request = url.protocol === 'https:' ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    request(url, { lookup: publicLookup, signal, headers: { Accept: 'image/*' } }, resolve)
+      .on('error', reject)
+      .end();
+  });
+}
+
+async function readLimited(response: IncomingMessage, maxBytes: number): Promise<Buffer> {
+  const declared = Number(response.headers['content-length']);
+  if (declared > maxBytes) throw new ImageFetchError(413, 'payload_too_large', `The image is larger than ${maxBytes} bytes`);
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > maxBytes) throw new ImageFetchError(413, 'payload_too_large', `The image is larger than ${maxBytes} bytes`);
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+export async function fetchImage(target: string, maxBytes: number, signal?: AbortSignal): Promise<FetchedImage> {
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    throw new ImageFetchError(400, 'invalid_url', 'Not a valid URL');
+  }
+
+  const timeout = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  const combined = signal ? AbortSignal.any([signal, timeout]) : timeout;
+
+  // Redirects are followed by hand so every hop is checked
+  for (let redirects = 0; ; redirects++) {
+    const response = await get(url, combined).catch((error) => {
+      if (error instanceof ImageFetchError || signal?.aborted) throw error;
+      if (timeout.aborted) throw new ImageFetchError(504, 'upstream_timeout', 'The site took too long to answer');
+      throw new ImageFetchError(502, 'upstream_unavailable', `Could not connect to ${url.hostname}`);
+    });
+    const status = response.statusCode ?? 0;
+
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.resume();
+      if (redirects >= MAX_REDIRECTS) throw new ImageFetchError(502, 'too_many_redirects', 'Too many redirects');
+      url = new URL(location, url);
+      continue;
+    }
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw new ImageFetchError(502, 'upstream_status', `The site answered with HTTP ${status}`);
+    }
+
+    const contentType = response.headers['content-type']?.split(';')[0].trim() ?? '';
+    if (!contentType.startsWith('image/')) {
+      response.destroy();
+      throw new ImageFetchError(415, 'not_an_image', 'The URL does not point to an image');
+    }
+    try {
+      return { body: await readLimited(response, maxBytes), contentType };
+    } catch (error) {
+      response.destroy();
+      if (error instanceof ImageFetchError || signal?.aborted) throw error;
+      if (timeout.aborted) throw new ImageFetchError(504, 'upstream_timeout', 'The site took too long to answer');
+      throw new ImageFetchError(502, 'upstream_unavailable', `The connection to ${url.hostname} was interrupted`);
+    }
+  }
+}
@@ -0,0 +1,9 @@
+import { loadConfig } from './config.js';
+import { createProxyServer } from './proxy.js';
+
+const config = loadConfig();
+const server = createProxyServer(config);
+
+server.listen(config.port, () => {
+  console.log(`Photoroom proxy listening on http://localhost:${config.port} (upstream ${config.upstreamUrl})`);
+});
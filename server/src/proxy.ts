@@ -0,0 +1,215 @@
+// Forwards segment requests to Photoroom with a server-held key,
+// enforcing per-client rate limits and daily quotas. Also fetches images
+// from sites without CORS headers for the app's URL import.
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { ProxyConfig } from './config.js';
+import { readBody, sendJson } from './http.js';
+import { fetchImage, ImageFetchError } from './imageFetch.js';
+import { DailyQuota } from './quota.js';
+import { RateLimiter } from './rateLimiter.js';
+import { UsageEntry, UsageLog } from './usageLog.js';
+
+const EXPOSED_HEADERS = 'Retry-After, X-Quota-Limit, X-Quota-Remaining';
+
+function clientId(req: IncomingMessage, trustProxy: boolean): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string') {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+}
+
+function applyCors(req: IncomingMessage, res: ServerResponse, allowedOrigins: string[]) {
+  const origin = req.headers.origin;
+  if (allowedOrigins.includes('*')) {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+  } else if (origin && allowedOrigins.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+  } else {
+    return;
+  }
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Expose-Headers', EXPOSED_HEADERS);
+}
+
+export function createProxyServer(config: ProxyConfig): Server {
+  const limiter = new RateLimiter(config.rateLimitPerMinute);
+  const quota = new DailyQuota(config.dailyQuota);
+  const usageLog = new UsageLog(config.usageLogPath);
+
+  const pruneTimer = setInterval(() => limiter.prune(), 60_000);
+  pruneTimer.unref();
+
+  const quotaHeaders = (client: string): Record<string, string> => {
+    const status = quota.status(client);
+    return config.dailyQuota > 0
+      ? { 'X-Quota-Limit': String(status.limit), 'X-Quota-Remaining': String(status.remaining) }
+      : {};
+  };
+
+  const forwardSegment = async (req: IncomingMessage, res: ServerResponse, client: string, search: string) => {
+    const startedAt = Date.now();
+    const entry: UsageEntry = {
+      time: new Date(startedAt).toISOString(),
+      client,
+      method: 'POST',
+      path: '/v1/segment',
+      status: 0,
+      durationMs: 0,
+      requestBytes: 0,
+    };
+    const finish = (status: number) => {
+      entry.status = status;
+      entry.durationMs = Date.now() - startedAt;
+      entry.quotaUsed = quota.status(client).used;
+      usageLog.write(entry);
+    };
+
+    const rate = limiter.take(client);
+    if (!rate.allowed) {
+      entry.rejected = 'rate_limit';
+      sendJson(res, 429, { error: 'rate_limited', retryAfter: rate.retryAfter }, { 'Retry-After': String(rate.retryAfter) });
+      req.resume();
+      return finish(429);
+    }
+
+    if (!quota.reserve(client)) {
+      const status = quota.status(client);
+      const retryAfter = Math.ceil((Date.parse(status.resetsAt) - Date.now()) / 1000);
+      entry.rejected = 'quota';
+      sendJson(res, 429, { error: 'quota_exceeded', resetsAt: status.resetsAt }, {
+        ...quotaHeaders(client),
+        'Retry-After': String(retryAfter),
+      });
+      req.resume();
+      return finish(429);
+    }
+
+    // The reserved slot is kept only if Photoroom succeeds
+    let reserved = true;
+    const releaseQuota = () => {
+      if (reserved) quota.release(client);
+      reserved = false;
+    };
+    // Stop the upstream call if the browser goes away
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      const body = await readBody(req, config.maxUploadBytes);
+      if (!body) {
+        entry.rejected = 'too_large';
+        releaseQuota();
+        sendJson(res, 413, { error: 'payload_too_large', maxBytes: config.maxUploadBytes });
+        return finish(413);
+      }
+      entry.requestBytes = body.length;
+
+      const upstream = await fetch(`${config.upstreamUrl}/v1/segment${search}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': req.headers['content-type'] ?? 'application/octet-stream',
+          'X-Api-Key': config.photoroomApiKey,
+        },
+        body,
+        signal: controller.signal,
+      });
+
+      // The key is ours, not the caller's: report it as a gateway problem
+      if (upstream.status === 401 || upstream.status === 403) {
+        console.error(`Photoroom rejected the server API key (${upstream.status})`);
+        releaseQuota();
+        sendJson(res, 502, { error: 'upstream_auth' });
+        return finish(502);
+      }
+
+      const payload = Buffer.from(await upstream.arrayBuffer());
+      if (upstream.ok) reserved = false;
+      else releaseQuota();
+      const retryAfter = upstream.headers.get('retry-after');
+      res.writeHead(upstream.status, {
+        ...quotaHeaders(client),
+        ...(retryAfter ? { 'Retry-After': retryAfter } : {}),
+        'Content-Type': upstream.headers.get('content-type') ?? 'application/octet-stream',
+        'Content-Length': String(payload.length),
+      });
+      res.end(payload);
+      finish(upstream.status);
+    } catch (error) {
+      // Aborted by the browser (logged as 499, nginx's "client closed request")
+      // or the upstream failed, which the caller answers with a 502
+      releaseQuota();
+      finish(controller.signal.aborted ? 499 : 502);
+      throw error;
+    }
+  };
+
+  // Shares the per-minute rate limit with segmentation, but not the daily quota
+  const forwardImage = async (res: ServerResponse, client: string, target: string) => {
+    const rate = limiter.take(client);
+    if (!rate.allowed) {
+      return sendJson(res, 429, { error: 'rate_limited', retryAfter: rate.retryAfter }, { 'Retry-After': String(rate.retryAfter) });
+    }
+
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      const image = await fetchImage(target, config.maxUploadBytes, controller.signal);
+      res.writeHead(200, {
+        'Content-Type': image.contentType,
+        'Content-Length': String(image.body.length),
+        'Cache-Control': 'no-store',
+      });
+      res.end(image.body);
+    } catch (error) {
+      if (!(error instanceof ImageFetchError)) throw error;
+      sendJson(res, error.status, { error: error.code, message: error.message });
+    }
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    applyCors(req, res, config.allowedOrigins);
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const client = clientId(req, config.trustProxy);
+
+    if (req.method === 'GET' && url.pathname === '/health') {
+      return sendJson(res, 200, { ok: true });
+    }
+    if (req.method === 'GET' && url.pathname === '/v1/usage') {
+      return sendJson(res, 200, quota.status(client), quotaHeaders(client));
+    }
+    if (req.method === 'POST' && url.pathname === '/v1/segment') {
+      return forwardSegment(req, res, client, url.search);
+    }
+    if (req.method === 'GET' && url.pathname === '/v1/fetch') {
+      return forwardImage(res, client, url.searchParams.get('url') ?? '');
+    }
+    sendJson(res, 404, { error: 'not_found' });
+  };
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error('Proxy request failed:', error);
+      if (!res.headersSent) {
+        sendJson(res, 502, { error: 'upstream_unavailable' });
+      } else {
+        res.destroy();
+      }
+    });
+  });
+  server.on('close', () => clearInterval(pruneTimer));
+  return server;
+}
@@ -0,0 +1,66 @@
+// Daily per-client usage counters, reset at UTC midnight
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+export interface QuotaStatus {
+  used: number;
+  // 0 when the quota is disabled
+  limit: number;
+  // null when the quota is disabled (unlimited)
+  remaining: number | null;
+  // ISO timestamp of the next reset
+  resetsAt: string;
+}
+
+export class DailyQuota {
+  private day = '';
+  private usage = new Map<string, number>();
+  private limit: number;
+
+  constructor(limit: number) {
+    this.limit = limit;
+  }
+
+  private roll(now: number) {
+    const today = utcDay(now);
+    if (today !== this.day) {
+      this.day = today;
+      this.usage.clear();
+    }
+  }
+
+  status(client: string, now = Date.now()): QuotaStatus {
+    this.roll(now);
+    const used = this.usage.get(client) ?? 0;
+    const tomorrow = new Date(`${this.day}T00:00:00.000Z`);
+    tomorrow.setUTCDate(tomorrow.getUTCDate() + 1);
+    return {
+      used,
+      limit: this.limit,
+      remaining: this.limit > 0 ? Math.max(0, this.limit - used) : null,
+      resetsAt: tomorrow.toISOString(),
+    };
+  }
+
+  isExhausted(client: string, now = Date.now()): boolean {
+    const { remaining } = this.status(client, now);
+    return remaining !== null && remaining <= 0;
+  }
+
+  // Takes a slot before the request is forwarded, so concurrent requests can't
+  // all pass the check; false when none is left
+  reserve(client: string, now = Date.now()): boolean {
+    if (this.isExhausted(client, now)) return false;
+    this.usage.set(client, (this.usage.get(client) ?? 0) + 1);
+    return true;
+  }
+
+  // Gives back a reserved slot when the request didn't succeed
+  release(client: string, now = Date.now()) {
+    this.roll(now);
+    const used = this.usage.get(client) ?? 0;
+    if (used > 0) this.usage.set(client, used - 1);
+  }
+}
@@ -0,0 +1,46 @@
+// Token bucket per client: `limit` requests per `windowMs`, refilled continuously
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until the next request would be allowed
+  retryAfter: number;
+}
+
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+  private limit: number;
+  private windowMs: number;
+
+  constructor(limit: number, windowMs = 60_000) {
+    this.limit = limit;
+    this.windowMs = windowMs;
+  }
+
+  take(client: string, now = Date.now()): RateLimitResult {
+    if (this.limit <= 0) return { allowed: true, retryAfter: 0 };
+
+    const refillPerMs = this.limit / this.windowMs;
+    const bucket = this.buckets.get(client) ?? { tokens: this.limit, updatedAt: now };
+    bucket.tokens = Math.min(this.limit, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    this.buckets.set(client, bucket);
+
+    if (bucket.tokens < 1) {
+      return { allowed: false, retryAfter: Math.ceil((1 - bucket.tokens) / refillPerMs / 1000) };
+    }
+    bucket.tokens -= 1;
+    return { allowed: true, retryAfter: 0 };
+  }
+
+  // Drop buckets that have refilled completely
+  prune(now = Date.now()) {
+    this.buckets.forEach((bucket, client) => {
+      if (now - bucket.updatedAt >= this.windowMs) this.buckets.delete(client);
+    });
+  }
+}
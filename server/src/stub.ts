@@ -0,0 +1,50 @@
+// Stand-in for the Photoroom API in local development and tests.
+// Echoes the uploaded image back as the "cutout".
+import { createServer, Server } from 'node:http';
+import { readBody, sendJson } from './http.js';
+
+export interface StubOptions {
+  apiKey: string;
+  // Artificial processing delay
+  latencyMs?: number;
+}
+
+export function createStubServer({ apiKey, latencyMs = 0 }: StubOptions): Server {
+  let segmentCount = 0;
+
+  return createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (req.headers['x-api-key'] !== apiKey) {
+      req.resume();
+      return sendJson(res, 401, { detail: 'Invalid API key' });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/v1/account') {
+      return sendJson(res, 200, { credits: { available: 1000, subscription: 0 }, stub: true, segmentCount });
+    }
+
+    if (req.method === 'POST' && url.pathname === '/v1/segment') {
+      const body = await readBody(req, Number.MAX_SAFE_INTEGER);
+      const form = await new Request('http://stub/', {
+        method: 'POST',
+        headers: { 'Content-Type': req.headers['content-type'] ?? '' },
+        body,
+      }).formData().catch(() => null);
+      const image = form?.get('image_file');
+      if (!image || typeof image === 'string') {
+        return sendJson(res, 400, { detail: 'image_file is required' });
+      }
+
+      segmentCount++;
+      if (latencyMs > 0) await new Promise(resolve => setTimeout(resolve, latencyMs));
+      const payload = Buffer.from(await image.arrayBuffer());
+      res.writeHead(200, { 'Content-Type': image.type || 'image/png', 'Content-Length': String(payload.length) });
+      res.end(payload);
+      return;
+    }
+
+    req.resume();
+    sendJson(res, 404, { detail: 'Not found' });
+  });
+}
@@ -0,0 +1,9 @@
+import { createStubServer } from './stub.js';
+
+const port = Number(process.env.PORT ?? 8788);
+const apiKey = process.env.STUB_API_KEY ?? 'stub-key';
+const server = createStubServer({ apiKey, latencyMs: Number(process.env.STUB_LATENCY_MS ?? 0) });
+
+server.listen(port, () => {
+  console.log(`Photoroom stub listening on http://localhost:${port} (API key "${apiKey}")`);
+});
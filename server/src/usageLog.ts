@@ -0,0 +1,34 @@
+// Append-only JSON-lines log of proxied requests
+import { appendFile } from 'node:fs/promises';
+
+export interface UsageEntry {
+  time: string;
+  client: string;
+  method: string;
+  path: string;
+  status: number;
+  durationMs: number;
+  requestBytes: number;
+  // Set when the request was refused before reaching Photoroom
+  rejected?: 'rate_limit' | 'quota' | 'too_large';
+  quotaUsed?: number;
+}
+
+export class UsageLog {
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  write(entry: UsageEntry) {
+    const line = `${JSON.stringify(entry)}\n`;
+    if (!this.path) {
+      process.stdout.write(line);
+      return;
+    }
+    appendFile(this.path, line).catch((error) => {
+      console.error('Failed to write usage log:', error);
+    });
+  }
+}
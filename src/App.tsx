@@ -1,11 +1,56 @@
-import React, { useState, useRef } from 'react';
-import { Upload, Download, Palette, Image as ImageIcon, Zap, Check, X, Plus, Trash2 } from 'lucide-react';
-import { PhotoroomAPI } from './utils/photoroomAPI';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Upload, Download, Layers, Settings, KeyRound, AlertCircle, Image as ImageIcon, Zap, Check, X, Plus, Trash2, RotateCcw, Brush, Sparkles, History, RefreshCw, SplitSquareHorizontal, Film, FileArchive, Link, Copy, ClipboardCheck } from 'lucide-react';
+import { DEFAULT_SEGMENT_OPTIONS, PhotoroomAPI, SegmentOptions } from './utils/photoroomAPI';
+import { PhotoroomError } from './utils/photoroomErrors';
+import { ApiKeySource, ApiKeyStore, resolveApiKey } from './utils/apiKeyStore';
+import { BatchJob, BatchItemStatus, BatchProcessor, BatchProgress } from './utils/batchJob';
+import { alphaBounds, extractAlpha, loadImageData, RasterImage, rasterToCanvas, rasterToObjectUrl } from './utils/imageData';
+import { CompositionSources, CompositionSpec, DEFAULT_COMPOSITION } from './utils/compositor';
+import { blobToDataUrl, downloadBlob } from './utils/download';
+import { HistoryInput, HistorySettings, HistoryStore } from './utils/historyStore';
+import { ResultCache } from './utils/resultCache';
+import { removeAtFullResolution, upscaleResult } from './utils/fullResolutionMatte';
+import {
+  decontaminateResult,
+  DecontaminationOptions,
+  DEFAULT_DECONTAMINATION_OPTIONS,
+} from './utils/edgeDecontamination';
+import { DEFAULT_PREPROCESS_OPTIONS, describePreprocess, IMAGE_ACCEPT, isImageFile, MAX_DIMENSION_CHOICES, PreprocessOptions, preprocessImage, PreprocessResult } from './utils/preprocess';
+import { DEFAULT_EXPORT_SETTINGS, EXPORT_FORMATS, exportComposition, ExportFile, ExportFormat, ExportSettings, formatFilename } from './utils/exporter';
+import { exportArchive, isZipFile, unpackImages, ZIP_ACCEPT } from './utils/batchArchive';
+import { copyImageToClipboard, DroppedImages, fetchImageFromUrl, imagesFromDataTransfer, isClipboardWriteSupported } from './utils/imageImport';
+import { layoutSources, LayoutSpec } from './utils/layout';
+import { BackgroundRemover, CachedProvider, ChromaKeyProvider, createDefaultRegistry, DEFAULT_PROVIDER_ID, GraphCutProvider, LocalPipelineProvider, PhotoroomProvider, RemovalResult } from './providers';
+import type { SegmentationSeeds } from './utils/graphCut';
+import { DEFAULT_SEGMENTATION_OPTIONS, SegmentationOptions } from './utils/segmentationOptions';
+import { ChromaKeyOptions, DEFAULT_CHROMA_KEY_OPTIONS } from './utils/chromaKey';
+import ProviderSelect from './components/ProviderSelect';
+import SegmentationSettings from './components/SegmentationSettings';
+import ChromaKeySettings from './components/ChromaKeySettings';
+import PhotoroomSettings from './components/PhotoroomSettings';
+import MaskEditor from './components/MaskEditor';
+import SeedEditor from './components/SeedEditor';
+import BackgroundPanel from './components/BackgroundPanel';
+import EdgeCleanupPanel from './components/EdgeCleanupPanel';
+import CompositePreview from './components/CompositePreview';
+import LayoutPanel from './components/LayoutPanel';
+import ExportPanel from './components/ExportPanel';
+import ApiKeySettings from './components/ApiKeySettings';
+import CacheSettings from './components/CacheSettings';
+import HistoryPanel from './components/HistoryPanel';
+import ComparisonViewer from './components/ComparisonViewer';
+import AnimationRemoval from './components/AnimationRemoval';
+
+const MAX_BATCH_IMAGES = 100;
+const EDGE_CLEANUP_DEBOUNCE_MS = 150;
+const HISTORY_SAVE_DEBOUNCE_MS = 1000;
 
 interface ProcessedImage {
   original: string;
   processed: string;
   filename: string;
+  providerId: string;
+  result: RemovalResult;
 }
 
 interface BatchImage {
@@ -13,23 +58,212 @@ interface BatchImage {
   original: string;
   processed?: string;
   filename: string;
-  isProcessing: boolean;
+  status: BatchItemStatus;
+  error?: string;
   backgroundColor: string;
+  cached?: boolean;
 }
+
 function App() {
   const [uploadedImage, setUploadedImage] = useState<string | null>(null);
   const [processedImage, setProcessedImage] = useState<ProcessedImage | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [backgroundColor, setBackgroundColor] = useState('#ffffff');
-  const [showColorPicker, setShowColorPicker] = useState(false);
+  const [composition, setComposition] = useState<CompositionSpec>(DEFAULT_COMPOSITION);
+  const [compositionSources, setCompositionSources] = useState<CompositionSources | null>(null);
+  const [layout, setLayout] = useState<LayoutSpec | null>(null);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [showExportPanel, setShowExportPanel] = useState(false);
+  const [showBackgroundPanel, setShowBackgroundPanel] = useState(false);
+  const [decontamination, setDecontamination] = useState<DecontaminationOptions>(DEFAULT_DECONTAMINATION_OPTIONS);
+  const [showEdgeCleanup, setShowEdgeCleanup] = useState(false);
+  const [showComparison, setShowComparison] = useState(false);
   const [dragActive, setDragActive] = useState(false);
   const [processingStep, setProcessingStep] = useState('');
+  const [maskEditorSource, setMaskEditorSource] = useState<RasterImage | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const photoroomAPI = useRef(new PhotoroomAPI('sk_pr_default_10dd528a0400cb6b67e26afa09c02b8dc38ac038'));
+  const [importUrl, setImportUrl] = useState('');
+  const [isImportingUrl, setIsImportingUrl] = useState(false);
+  const [copiedResult, setCopiedResult] = useState(false);
+  const [apiKeyStore] = useState(() => new ApiKeyStore());
+  const [initialApiKey] = useState(() => resolveApiKey(apiKeyStore));
+  const photoroomAPI = useRef(new PhotoroomAPI(initialApiKey.key, { baseUrl: import.meta.env.VITE_PHOTOROOM_BASE_URL }));
+  const [apiKeySource, setApiKeySource] = useState<ApiKeySource>(initialApiKey.source);
+  const [showApiKeySettings, setShowApiKeySettings] = useState(false);
+  const [processingError, setProcessingError] = useState<{ message: string; apiKey: boolean } | null>(null);
+  const [providerRegistry] = useState(() => createDefaultRegistry(photoroomAPI.current));
+  const [providerId, setProviderId] = useState(DEFAULT_PROVIDER_ID);
+  const [segmentationOptions, setSegmentationOptions] = useState<SegmentationOptions>(DEFAULT_SEGMENTATION_OPTIONS);
+  const [chromaKeyOptions, setChromaKeyOptions] = useState<ChromaKeyOptions>(DEFAULT_CHROMA_KEY_OPTIONS);
+  const [photoroomOptions, setPhotoroomOptions] = useState<SegmentOptions>(DEFAULT_SEGMENT_OPTIONS);
+  const [seeds, setSeeds] = useState<SegmentationSeeds>({ rect: null, strokes: [] });
   const [originalFile, setOriginalFile] = useState<File | null>(null);
+  // Untouched upload; originalFile may be a downscaled copy of it
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  const [fullResolutionMatte, setFullResolutionMatte] = useState(true);
+  const [preprocessOptions, setPreprocessOptions] = useState<PreprocessOptions>(DEFAULT_PREPROCESS_OPTIONS);
+  const [preprocessInfo, setPreprocessInfo] = useState<string | null>(null);
   const [batchImages, setBatchImages] = useState<BatchImage[]>([]);
   const [isBatchProcessing, setIsBatchProcessing] = useState(false);
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null);
+  const [batchConcurrency, setBatchConcurrency] = useState(3);
+  const [batchZipFormat, setBatchZipFormat] = useState<ExportFormat>('png');
+  const [batchZipProgress, setBatchZipProgress] = useState<{ done: number; total: number } | null>(null);
   const batchFileInputRef = useRef<HTMLInputElement>(null);
+  const batchSectionRef = useRef<HTMLDivElement>(null);
+  const batchPreviews = useRef(new Map<string, string>());
+  const batchBackgrounds = useRef(new Map<string, string>());
+  const [historyStore] = useState(() => new HistoryStore());
+  // History entry the current result belongs to
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [resultCache] = useState(() => new ResultCache());
+  const [cacheEnabled, setCacheEnabled] = useState(true);
+  // Batch files whose result came from the cache
+  const batchCached = useRef(new WeakSet<File>());
+
+  const provider = providerRegistry.get(providerId);
+  const localPipeline = provider instanceof LocalPipelineProvider ? provider : null;
+  const graphCut = provider instanceof GraphCutProvider ? provider : null;
+  const chromaKey = provider instanceof ChromaKeyProvider ? provider : null;
+  const photoroom = provider instanceof PhotoroomProvider ? provider : null;
+  const providerName = (id: string) => providerRegistry.has(id) ? providerRegistry.get(id).name : id;
+  const historySettings: HistorySettings = { composition, layout, exportSettings, decontamination };
+
+  const withCache = (remover: BackgroundRemover, refresh = false): BackgroundRemover => (
+    cacheEnabled && ResultCache.isSupported() ? new CachedProvider(remover, resultCache, { refresh }) : remover
+  );
+
+  // Failing to save history shouldn't fail the job itself
+  const saveToHistory = async (input: Omit<HistoryInput, 'settings'>) => {
+    if (!HistoryStore.isSupported()) return null;
+    try {
+      return await historyStore.save({ ...input, settings: historySettings });
+    } catch (error) {
+      console.error('Failed to save to history:', error);
+      return null;
+    }
+  };
+
+  const updateSeeds = (next: SegmentationSeeds) => {
+    setSeeds(next);
+    providerRegistry.list().forEach(candidate => {
+      if (candidate instanceof GraphCutProvider) candidate.setSeeds(next);
+    });
+  };
+
+  const updateSegmentationOptions = (options: SegmentationOptions) => {
+    setSegmentationOptions(options);
+    providerRegistry.list().forEach(candidate => {
+      if (candidate instanceof LocalPipelineProvider) candidate.setOptions(options);
+    });
+  };
+
+  const updateChromaKeyOptions = (options: ChromaKeyOptions) => {
+    setChromaKeyOptions(options);
+    providerRegistry.list().forEach(candidate => {
+      if (candidate instanceof ChromaKeyProvider) candidate.setOptions(options);
+    });
+  };
+
+  const updatePhotoroomOptions = (options: SegmentOptions) => {
+    setPhotoroomOptions(options);
+    providerRegistry.list().forEach(candidate => {
+      if (candidate instanceof PhotoroomProvider) candidate.setSegmentOptions(options);
+    });
+  };
+
+  const createBatchProcessor = (id: string): BatchProcessor => {
+    const batchProvider = withCache(providerRegistry.get(id));
+    const batchId = `batch_${Date.now()}`;
+    return async (file, signal) => {
+      const { file: prepared } = await preprocessImage(file, preprocessOptions);
+      const proxyResult = await batchProvider.remove(prepared, { signal });
+      if (proxyResult.cached) batchCached.current.add(file);
+      const result = fullResolutionMatte && prepared !== file
+        ? await upscaleResult(proxyResult, file, { signal, chromaKey: chromaKeyOptions })
+        : proxyResult;
+      await saveToHistory({ filename: file.name, providerId: batchProvider.id, source: file, prepared, result, batchId });
+      const cleaned = await decontaminateResult(result, file, decontamination);
+      return rasterToObjectUrl(cleaned.image);
+    };
+  };
+
+  const [batchJob] = useState(() => new BatchJob(createBatchProcessor(DEFAULT_PROVIDER_ID), {
+    concurrency: 3,
+    onDiscard: url => URL.revokeObjectURL(url),
+  }));
+
+  useEffect(() => {
+    return batchJob.subscribe((items, progress) => {
+      setBatchImages(items.map((item) => {
+        let preview = batchPreviews.current.get(item.id);
+        if (!preview) {
+          preview = URL.createObjectURL(item.file);
+          batchPreviews.current.set(item.id, preview);
+        }
+        return {
+          id: item.id,
+          original: preview,
+          processed: item.status === 'done' ? item.result : undefined,
+          filename: item.file.name,
+          status: item.status,
+          error: item.error,
+          backgroundColor: batchBackgrounds.current.get(item.id) ?? '#ffffff',
+          cached: item.status === 'done' && batchCached.current.has(item.file)
+        };
+      }));
+      setBatchProgress(progress);
+      setIsBatchProcessing(batchJob.isRunning());
+    });
+  }, [batchJob]);
+
+  // Full-size layers for the compositor; the original photo backs the blur background
+  useEffect(() => {
+    if (!processedImage || !originalFile) {
+      setCompositionSources(null);
+      return;
+    }
+    let cancelled = false;
+    const source = sourceFile ?? originalFile;
+    // Debounced so dragging the edge cleanup slider stays responsive
+    const timer = setTimeout(async () => {
+      const original = await createImageBitmap(source).catch((error) => {
+        console.error('Failed to decode original image:', error);
+        return null;
+      });
+      let result = processedImage.result;
+      try {
+        result = await decontaminateResult(result, source, decontamination);
+      } catch (error) {
+        console.error('Edge cleanup failed:', error);
+      }
+      if (cancelled) {
+        original?.close();
+        return;
+      }
+      setCompositionSources({ subject: rasterToCanvas(result.image), original, bounds: alphaBounds(result.mask) });
+    }, EDGE_CLEANUP_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [processedImage, originalFile, sourceFile, decontamination]);
+
+  const exportSources = useMemo(() => (
+    compositionSources && layout ? layoutSources(compositionSources, layout) : compositionSources
+  ), [compositionSources, layout]);
+
+  // Keep the open history entry's settings in sync so reopening it restores them
+  useEffect(() => {
+    if (!historyId) return;
+    const settings = { composition, layout, exportSettings, decontamination };
+    const timer = setTimeout(() => {
+      historyStore.update(historyId, { settings }).catch((error) => {
+        console.error('Failed to update history:', error);
+      });
+    }, HISTORY_SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [historyStore, historyId, composition, layout, exportSettings, decontamination]);
 
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
@@ -45,24 +279,81 @@ function App() {
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
-    
-    const files = e.dataTransfer.files;
-    if (files && files[0]) {
+    importImages(imagesFromDataTransfer(e.dataTransfer));
+  };
+
+  // One image opens in the editor, several (or a ZIP) go to the batch queue,
+  // and an image dragged from another tab arrives as a URL to download
+  const importImages = ({ files, urls }: DroppedImages) => {
+    if (files.length > 1 || (files.length === 1 && isZipFile(files[0]))) {
+      addBatchFiles(files).then(() => batchSectionRef.current?.scrollIntoView({ behavior: 'smooth' }));
+    } else if (files.length === 1) {
       handleFileUpload(files[0]);
+    } else if (urls.length > 0) {
+      importImageUrl(urls[0]);
     }
   };
 
-  const handleFileUpload = (file: File) => {
-    if (file && file.type.startsWith('image/')) {
-      // Store the original file for API processing
-      setOriginalFile(file);
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        setUploadedImage(e.target?.result as string);
-        setProcessedImage(null);
-      };
-      reader.readAsDataURL(file);
+  const importImageUrl = async (url: string) => {
+    setIsImportingUrl(true);
+    try {
+      const api = photoroomAPI.current;
+      const file = await fetchImageFromUrl(url, { proxyUrl: api.isProxied() ? api.getBaseUrl() : undefined });
+      setImportUrl('');
+      await handleFileUpload(file);
+    } catch (error) {
+      console.error('URL import failed:', error);
+      alert(error instanceof Error ? error.message : 'Failed to import this image.');
+    } finally {
+      setIsImportingUrl(false);
+    }
+  };
+
+  // Ctrl+V anywhere on the page, unless the user is typing in a field. The
+  // listener is added once and reads the latest handler from the ref.
+  const handlePaste = (e: ClipboardEvent) => {
+    const target = e.target;
+    if (target instanceof HTMLElement && (target.isContentEditable || target.closest('input, textarea, select'))) return;
+    if (!e.clipboardData || maskEditorSource || isProcessing) return;
+    const images = imagesFromDataTransfer(e.clipboardData);
+    if (images.files.length === 0 && images.urls.length === 0) return;
+    e.preventDefault();
+    importImages(images);
+  };
+  const handlePasteRef = useRef(handlePaste);
+  handlePasteRef.current = handlePaste;
+  useEffect(() => {
+    const onPaste = (e: ClipboardEvent) => handlePasteRef.current(e);
+    window.addEventListener('paste', onPaste);
+    return () => window.removeEventListener('paste', onPaste);
+  }, []);
+
+  const handleFileUpload = async (file: File) => {
+    if (!file || !isImageFile(file)) return;
+
+    let prepared: PreprocessResult;
+    try {
+      prepared = await preprocessImage(file, preprocessOptions);
+    } catch (error) {
+      console.error('Pre-processing failed:', error);
+      alert(error instanceof Error ? error.message : 'Failed to read this image.');
+      return;
     }
+
+    // Store the prepared file for API processing
+    setOriginalFile(prepared.file);
+    setSourceFile(file);
+    setHistoryId(null);
+    setPreprocessInfo(describePreprocess(prepared));
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      setUploadedImage(e.target?.result as string);
+      if (processedImage) URL.revokeObjectURL(processedImage.processed);
+      setProcessedImage(null);
+      setProcessingError(null);
+      updateSeeds({ rect: null, strokes: [] });
+    };
+    reader.readAsDataURL(prepared.file);
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -72,80 +363,304 @@ function App() {
     }
   };
 
-  const processImageWithPhotoroom = async () => {
-    if (!uploadedImage) return;
+  // `refresh` ignores any cached result and runs the provider again
+  const processImageWithProvider = async (refresh = false) => {
+    if (!uploadedImage || !originalFile) return;
+    const remover = withCache(provider, refresh);
     
     setIsProcessing(true);
-    setProcessingStep('Connecting to Photoroom API...');
+    setProcessingError(null);
+    setProcessingStep(provider.capabilities.offline ? 'Analyzing image on your device...' : 'Uploading image for processing...');
     
     try {
-      setProcessingStep('Uploading image for processing...');
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      setProcessingStep('AI is analyzing your image...');
-      
-      setProcessingStep('Removing background with professional AI...');
-      const processedDataUrl = await photoroomAPI.current.removeBackgroundFromDataUrl(uploadedImage);
+      setProcessingStep(`Removing background with ${provider.name}...`);
+      // Only worth it when the upload was downscaled
+      const result = fullResolutionMatte && sourceFile && sourceFile !== originalFile
+        ? await removeAtFullResolution(remover, originalFile, sourceFile, { onProgress: setProcessingStep, chromaKey: chromaKeyOptions })
+        : await remover.remove(originalFile, { onProgress: setProcessingStep });
       
       setProcessingStep('Finalizing high-quality result...');
-      await new Promise(resolve => setTimeout(resolve, 500));
+      const processedUrl = await rasterToObjectUrl(result.image);
       
+      if (processedImage) URL.revokeObjectURL(processedImage.processed);
       setProcessedImage({
         original: uploadedImage,
-        processed: processedDataUrl,
-        filename: `processed_${Date.now()}.png`
+        processed: processedUrl,
+        filename: `processed_${Date.now()}.png`,
+        providerId: provider.id,
+        result
       });
+      const entry = await saveToHistory({
+        filename: (sourceFile ?? originalFile).name,
+        providerId: provider.id,
+        source: sourceFile ?? originalFile,
+        prepared: originalFile,
+        result,
+      });
+      setHistoryId(entry?.id ?? null);
     } catch (error) {
       console.error('Processing failed:', error);
-      alert('Failed to process image. Please try again.');
+      // Provider errors are written for users, e.g. a missing segmentation model
+      setProcessingError(error instanceof PhotoroomError
+        ? { message: error.message, apiKey: error.kind === 'auth' }
+        : { message: error instanceof Error && error.message ? error.message : 'Failed to process image. Please try again.', apiKey: false });
     } finally {
       setIsProcessing(false);
       setProcessingStep('');
     }
   };
 
-  const downloadImage = (format: 'png' | 'jpg') => {
+  const openMaskEditor = async () => {
+    if (!processedImage || !originalFile) return;
+    const { width, height } = processedImage.result.mask;
+    setMaskEditorSource(await loadImageData(sourceFile ?? originalFile, width, height));
+  };
+
+  const applyMaskEdit = async (result: RemovalResult) => {
     if (!processedImage) return;
-    
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    const img = new Image();
-    
-    img.onload = () => {
-      canvas.width = img.width;
-      canvas.height = img.height;
-      
-      // Fill background color for JPG
-      if (format === 'jpg') {
-        ctx!.fillStyle = backgroundColor;
-        ctx!.fillRect(0, 0, canvas.width, canvas.height);
-      }
-      
-      ctx!.drawImage(img, 0, 0);
-      
-      canvas.toBlob((blob) => {
-        if (blob) {
-          const url = URL.createObjectURL(blob);
-          const a = document.createElement('a');
-          a.href = url;
-          a.download = `background-removed.${format}`;
-          document.body.appendChild(a);
-          a.click();
-          document.body.removeChild(a);
-          URL.revokeObjectURL(url);
+    const processed = await rasterToObjectUrl(result.image);
+    URL.revokeObjectURL(processedImage.processed);
+    setProcessedImage({ ...processedImage, processed, result });
+    setMaskEditorSource(null);
+    if (historyId) {
+      historyStore.update(historyId, { result }).catch((error) => {
+        console.error('Failed to update history:', error);
+      });
+    }
+  };
+
+  const openHistoryEntry = async (id: string) => {
+    try {
+      const { entry, source, prepared, result } = await historyStore.load(id);
+      const original = await blobToDataUrl(prepared);
+      const processed = await rasterToObjectUrl(result.image);
+      if (processedImage) URL.revokeObjectURL(processedImage.processed);
+
+      setSourceFile(source);
+      setOriginalFile(prepared);
+      setUploadedImage(original);
+      setProcessedImage({ original, processed, filename: entry.filename, providerId: entry.providerId, result });
+      setComposition(entry.settings.composition);
+      setLayout(entry.settings.layout);
+      setExportSettings(entry.settings.exportSettings);
+      setDecontamination(entry.settings.decontamination);
+      setHistoryId(entry.id);
+      setPreprocessInfo(null);
+      setProcessingError(null);
+      setMaskEditorSource(null);
+      setShowHistory(false);
+    } catch (error) {
+      console.error('Failed to open history entry:', error);
+      alert(error instanceof Error ? error.message : 'Failed to open this project.');
+    }
+  };
+
+  const handleHistoryDeleted = (ids: string[]) => {
+    if (historyId && ids.includes(historyId)) setHistoryId(null);
+  };
+
+  const downloadFiles = async (files: Promise<ExportFile[]>) => {
+    try {
+      (await files).forEach(file => downloadBlob(file.blob, file.filename));
+    } catch (error) {
+      console.error('Export failed:', error);
+      alert('Failed to export image. Please try again.');
+    }
+  };
+
+  const downloadImage = () => {
+    if (!exportSources) return;
+    downloadFiles(exportComposition(exportSources, composition, exportSettings, originalFile?.name ?? 'image'));
+  };
+
+  // Always a PNG of the image itself: it's the only type every clipboard accepts
+  const copyResult = async () => {
+    if (!exportSources) return;
+    const png = exportComposition(
+      exportSources,
+      composition,
+      { ...exportSettings, format: 'png', content: 'image' },
+      originalFile?.name ?? 'image'
+    ).then(files => files[0].blob);
+    try {
+      await copyImageToClipboard(png);
+      setCopiedResult(true);
+      setTimeout(() => setCopiedResult(false), 2000);
+    } catch (error) {
+      console.error('Copy failed:', error);
+      alert('Failed to copy the image. Your browser may not allow clipboard access.');
+    }
+  };
+
+  // The provider's own file, skipping the local compositor
+  const downloadProviderOutput = () => {
+    const output = processedImage?.result.output;
+    if (!output) return;
+    const { width, height } = processedImage.result.image;
+    const name = formatFilename(exportSettings.filenameTemplate, {
+      name: originalFile?.name ?? 'image',
+      width,
+      height,
+      format: exportSettings.format,
+    });
+    downloadBlob(output.blob, `${name}.${output.extension}`);
+  };
+
+  const saveImage = async (
+    src: string,
+    format: ExportFormat,
+    fillColor: string,
+    originalName: string,
+    filenameTemplate = exportSettings.filenameTemplate
+  ) => {
+    const raster = await loadImageData(await (await fetch(src)).blob());
+    let sources: CompositionSources = { subject: rasterToCanvas(raster), bounds: alphaBounds(extractAlpha(raster)) };
+    if (layout) sources = layoutSources(sources, layout);
+    // Fill background color for formats without transparency
+    const spec: CompositionSpec = !EXPORT_FORMATS[format].transparent
+      ? { ...DEFAULT_COMPOSITION, background: { type: 'color', color: fillColor } }
+      : DEFAULT_COMPOSITION;
+    return exportComposition(sources, spec, { ...exportSettings, format, filenameTemplate }, originalName);
+  };
+
+  const handleBatchFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    addBatchFiles(selected);
+  };
+
+  // Images and the images inside ZIP archives, up to MAX_BATCH_IMAGES in total
+  const addBatchFiles = async (selected: File[]) => {
+    let available = Math.max(0, MAX_BATCH_IMAGES - batchImages.length);
+    let truncated = false;
+
+    for (const file of selected) {
+      if (isZipFile(file)) {
+        try {
+          const unpacked = await unpackImages(file, available);
+          batchJob.add(unpacked.files);
+          available -= unpacked.files.length;
+          truncated ||= unpacked.truncated > 0;
+          if (unpacked.files.length === 0 && unpacked.truncated === 0) {
+            alert(`${file.name} contains no images.`);
+          }
+        } catch (error) {
+          console.error('Failed to read ZIP archive:', error);
+          alert(`${file.name}: ${error instanceof Error ? error.message : 'Failed to read this archive.'}`);
         }
-      }, `image/${format}`, 0.9);
-    };
-    
-    img.src = processedImage.processed;
+      } else if (isImageFile(file)) {
+        if (available > 0) {
+          batchJob.add([file]);
+          available--;
+        } else {
+          truncated = true;
+        }
+      }
+    }
+    if (truncated) {
+      alert(`You can process up to ${MAX_BATCH_IMAGES} images at once.`);
+    }
+  };
+
+  // Batch items skip the purge after each save, so it runs once per batch
+  const purgeHistory = () => {
+    if (!HistoryStore.isSupported()) return;
+    historyStore.purge().catch((error) => {
+      console.error('Failed to purge history:', error);
+    });
+  };
+
+  const processBatchImages = () => {
+    batchJob.setProcessor(createBatchProcessor(providerId));
+    batchJob.setConcurrency(batchConcurrency);
+    batchJob.start().then(purgeHistory);
+  };
+
+  const retryFailedBatchImages = () => {
+    batchJob.setProcessor(createBatchProcessor(providerId));
+    batchJob.setConcurrency(batchConcurrency);
+    batchJob.retryFailed().then(purgeHistory);
+  };
+
+  const cancelBatch = () => {
+    batchJob.cancelAll();
+  };
+
+  const resetBatch = () => {
+    batchJob.clear();
+    batchPreviews.current.forEach(url => URL.revokeObjectURL(url));
+    batchPreviews.current.clear();
+    batchBackgrounds.current.clear();
+  };
+
+  const removeBatchImage = (id: string) => {
+    batchJob.remove(id);
+    const preview = batchPreviews.current.get(id);
+    if (preview) {
+      URL.revokeObjectURL(preview);
+      batchPreviews.current.delete(id);
+    }
+    batchBackgrounds.current.delete(id);
+  };
+
+  const updateBatchImageBackground = (id: string, color: string) => {
+    batchBackgrounds.current.set(id, color);
+    setBatchImages(prev => prev.map(img => img.id === id ? { ...img, backgroundColor: color } : img));
+  };
+
+  const downloadBatchImage = (image: BatchImage, format: 'png' | 'jpg') => {
+    if (!image.processed) return;
+    downloadFiles(saveImage(image.processed, format, image.backgroundColor, image.filename));
+  };
+
+  // Every result under its original name, plus a manifest of what happened to each file
+  const downloadBatchZip = async () => {
+    const transparent = EXPORT_FORMATS[batchZipFormat].transparent;
+    const items = batchImages.map((image) => {
+      const processed = image.processed;
+      return {
+        filename: image.filename,
+        status: image.status,
+        error: image.error,
+        backgroundColor: processed && !transparent ? image.backgroundColor : undefined,
+        render: processed
+          ? () => saveImage(processed, batchZipFormat, image.backgroundColor, image.filename, '{name}')
+          : undefined,
+      };
+    });
+    setBatchZipProgress({ done: 0, total: items.length });
+    try {
+      await exportArchive(items, {
+        filename: `removebg-batch-${new Date().toISOString().slice(0, 10)}.zip`,
+        format: batchZipFormat,
+        provider: provider.name,
+        onProgress: (done, total) => setBatchZipProgress({ done, total }),
+      });
+    } catch (error) {
+      // Dismissing the save dialog isn't an error
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        console.error('ZIP export failed:', error);
+        alert('Failed to create the ZIP archive. Please try again.');
+      }
+    } finally {
+      setBatchZipProgress(null);
+    }
   };
 
   const resetApp = () => {
     setUploadedImage(null);
     setOriginalFile(null);
+    setSourceFile(null);
+    if (processedImage) URL.revokeObjectURL(processedImage.processed);
     setProcessedImage(null);
+    setHistoryId(null);
     setIsProcessing(false);
-    setShowColorPicker(false);
+    setProcessingError(null);
+    setPreprocessInfo(null);
+    setShowBackgroundPanel(false);
+    setShowEdgeCleanup(false);
+    setShowComparison(false);
+    setMaskEditorSource(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -171,6 +686,25 @@ function App() {
               <a href="#" className="text-gray-600 hover:text-purple-600 transition-colors">API</a>
               <a href="#" className="text-gray-600 hover:text-purple-600 transition-colors">Support</a>
             </nav>
+            <div className="flex items-center space-x-1">
+              <button
+                onClick={() => setShowHistory(true)}
+                className="p-2 rounded-lg text-gray-600 hover:text-purple-600 hover:bg-gray-100 transition-colors"
+                title="History"
+              >
+                <History className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setShowApiKeySettings(true)}
+                className="relative p-2 rounded-lg text-gray-600 hover:text-purple-600 hover:bg-gray-100 transition-colors"
+                title="API key settings"
+              >
+                <KeyRound className="w-5 h-5" />
+                {!photoroomAPI.current.isProxied() && (apiKeySource === 'none' || apiKeySource === 'locked') && (
+                  <span className="absolute top-1 right-1 w-2 h-2 bg-amber-500 rounded-full" />
+                )}
+              </button>
+            </div>
           </div>
         </div>
       </header>
@@ -212,7 +746,7 @@ function App() {
                   <ImageIcon className="w-8 h-8 text-white" />
                 </div>
                 <p className="text-gray-600 mb-4">
-                  Drag and drop your image here, or click to browse
+                  Drag and drop your image here, paste it, or click to browse
                 </p>
                 <button
                   onClick={() => fileInputRef.current?.click()}
@@ -220,33 +754,123 @@ function App() {
                 >
                   Choose Image
                 </button>
+                <div className="flex space-x-2 mt-4 max-w-sm mx-auto">
+                  <input
+                    type="url"
+                    value={importUrl}
+                    onChange={(e) => setImportUrl(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && importUrl.trim() && importImageUrl(importUrl)}
+                    placeholder="…or an image URL"
+                    className="flex-1 min-w-0 bg-gray-100 text-gray-700 px-3 py-2 rounded-lg text-sm"
+                  />
+                  <button
+                    onClick={() => importImageUrl(importUrl)}
+                    disabled={isImportingUrl || !importUrl.trim()}
+                    className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center disabled:opacity-50"
+                  >
+                    <Link className="w-4 h-4 mr-2" />
+                    {isImportingUrl ? 'Importing...' : 'Import'}
+                  </button>
+                </div>
+                <label className="block mt-4 text-xs text-gray-500">
+                  Downscale larger than{' '}
+                  <select
+                    value={preprocessOptions.maxDimension ?? 'off'}
+                    onChange={(e) => setPreprocessOptions({
+                      ...preprocessOptions,
+                      maxDimension: e.target.value === 'off' ? null : Number(e.target.value),
+                    })}
+                    className="bg-gray-100 text-gray-700 px-2 py-1 rounded text-xs"
+                  >
+                    {MAX_DIMENSION_CHOICES.map((choice) => (
+                      <option key={choice ?? 'off'} value={choice ?? 'off'}>
+                        {choice ? `${choice} px` : 'never'}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className={`flex items-center justify-center space-x-2 mt-2 text-xs text-gray-500 ${preprocessOptions.maxDimension ? '' : 'opacity-50'}`}>
+                  <input
+                    type="checkbox"
+                    checked={fullResolutionMatte}
+                    onChange={(e) => setFullResolutionMatte(e.target.checked)}
+                    disabled={!preprocessOptions.maxDimension}
+                    className="accent-purple-600"
+                  />
+                  <span>Export at full resolution (upscale the matte)</span>
+                </label>
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept="image/*"
+                  accept={IMAGE_ACCEPT}
                   onChange={handleFileSelect}
                   className="hidden"
                 />
               </div>
             ) : (
               <div className="space-y-4">
-                <div className="relative">
-                  <img
-                    src={uploadedImage}
-                    alt="Uploaded"
-                    className="w-full h-64 object-cover rounded-lg"
+                {graphCut && !processedImage ? (
+                  <SeedEditor
+                    imageUrl={uploadedImage}
+                    seeds={seeds}
+                    onChange={updateSeeds}
+                    toolbarExtra={
+                      <button
+                        onClick={resetApp}
+                        className="bg-red-500 text-white p-2 rounded-full hover:bg-red-600 transition-colors"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    }
                   />
-                  <button
-                    onClick={resetApp}
-                    className="absolute top-2 right-2 bg-red-500 text-white p-2 rounded-full hover:bg-red-600 transition-colors"
-                  >
-                    <X className="w-4 h-4" />
-                  </button>
-                </div>
+                ) : (
+                  <div className="relative">
+                    <img
+                      src={uploadedImage}
+                      alt="Uploaded"
+                      className="w-full h-64 object-contain rounded-lg bg-gray-50"
+                    />
+                    <button
+                      onClick={resetApp}
+                      className="absolute top-2 right-2 bg-red-500 text-white p-2 rounded-full hover:bg-red-600 transition-colors"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
                 
+                {!processedImage && !isProcessing && (
+                  <ProviderSelect
+                    providers={providerRegistry.list()}
+                    value={providerId}
+                    onChange={setProviderId}
+                  />
+                )}
+
+                {preprocessInfo && (
+                  <p className="text-xs text-gray-500">{preprocessInfo}</p>
+                )}
+
+                {processingError && !isProcessing && (
+                  <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm flex items-start">
+                    <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                    <div className="space-y-1">
+                      <p>{processingError.message}</p>
+                      {processingError.apiKey && (
+                        <button
+                          onClick={() => setShowApiKeySettings(true)}
+                          className="font-medium underline hover:text-red-800"
+                        >
+                          Open API key settings
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
+
                 {!processedImage && !isProcessing && (
                   <button
-                    onClick={processImageWithPhotoroom}
+                    onClick={() => processImageWithProvider()}
                     className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-3 rounded-lg font-medium hover:from-purple-700 hover:to-blue-700 transition-all duration-200 transform hover:scale-105 flex items-center justify-center"
                   >
                     <Zap className="w-5 h-5 mr-2" />
@@ -254,11 +878,39 @@ function App() {
                   </button>
                 )}
                 
+                {photoroom && !processedImage && !isProcessing && (
+                  <PhotoroomSettings options={photoroomOptions} onChange={updatePhotoroomOptions} />
+                )}
+
+                {provider.cacheKey && !processedImage && !isProcessing && (
+                  <CacheSettings cache={resultCache} enabled={cacheEnabled} onEnabledChange={setCacheEnabled} />
+                )}
+
+                {localPipeline && !isProcessing && (
+                  <SegmentationSettings
+                    provider={localPipeline}
+                    file={originalFile}
+                    options={segmentationOptions}
+                    onChange={updateSegmentationOptions}
+                    onApply={processedImage ? () => processImageWithProvider() : undefined}
+                  />
+                )}
+
+                {chromaKey && !isProcessing && (
+                  <ChromaKeySettings
+                    provider={chromaKey}
+                    file={originalFile}
+                    options={chromaKeyOptions}
+                    onChange={updateChromaKeyOptions}
+                    onApply={processedImage ? () => processImageWithProvider() : undefined}
+                  />
+                )}
+
                 {isProcessing && (
                   <div className="w-full bg-gray-100 py-4 rounded-lg">
                     <div className="flex items-center justify-center mb-2">
                     <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-purple-600 mr-3"></div>
-                      <span className="font-medium">Processing with Photoroom AI...</span>
+                      <span className="font-medium">Processing with {provider.name}...</span>
                     </div>
                     {processingStep && (
                       <div className="text-center text-sm text-gray-600">
@@ -278,7 +930,14 @@ function App() {
               Result
             </h3>
             
-            {processedImage ? (
+            {processedImage && maskEditorSource ? (
+              <MaskEditor
+                result={processedImage.result}
+                source={maskEditorSource}
+                onApply={applyMaskEdit}
+                onCancel={() => setMaskEditorSource(null)}
+              />
+            ) : processedImage ? (
               <div className="space-y-6">
                 <div className="relative">
                   {/* Checkerboard pattern for transparency visualization */}
@@ -295,66 +954,146 @@ function App() {
                       backgroundPosition: '0 0, 0 10px, 10px -10px, -10px 0px'
                     }}
                   />
-                  <img
-                    src={processedImage.processed}
-                    alt="Processed"
-                    className="w-full h-64 object-cover rounded-lg relative z-10"
-                  />
+                  {exportSources ? (
+                    <CompositePreview
+                      sources={exportSources}
+                      spec={composition}
+                      opaque={!EXPORT_FORMATS[exportSettings.format].transparent}
+                      className="w-full h-64 object-contain rounded-lg relative z-10"
+                    />
+                  ) : (
+                    <img
+                      src={processedImage.processed}
+                      alt="Processed"
+                      className="w-full h-64 object-contain rounded-lg relative z-10"
+                    />
+                  )}
                   <div className="absolute top-2 left-2 bg-gradient-to-r from-green-500 to-emerald-500 text-white px-3 py-1 rounded-full text-xs font-medium z-20 shadow-lg">
-                    ✨ Photoroom AI
+                    ✨ {providerName(processedImage.providerId)}
                   </div>
+                  {processedImage.result.cached && (
+                    <button
+                      onClick={() => processImageWithProvider(true)}
+                      disabled={isProcessing || processedImage.providerId !== provider.id}
+                      title="Served from the result cache. Click to process again."
+                      className="absolute top-10 left-2 bg-white/90 hover:bg-white text-gray-700 px-3 py-1 rounded-full text-xs font-medium z-20 shadow-lg flex items-center disabled:opacity-50"
+                    >
+                      <RefreshCw className="w-3 h-3 mr-1" />
+                      Cached · Re-run
+                    </button>
+                  )}
+                  {!processedImage.result.cropped && (
+                    <button
+                      onClick={openMaskEditor}
+                      className="absolute top-2 right-2 bg-white/90 hover:bg-white text-gray-700 px-3 py-1 rounded-full text-xs font-medium z-20 shadow-lg flex items-center"
+                    >
+                      <Brush className="w-3 h-3 mr-1" />
+                      Refine Mask
+                    </button>
+                  )}
+                  {compositionSources && (
+                    <button
+                      onClick={() => setShowComparison(true)}
+                      className="absolute bottom-2 right-2 bg-white/90 hover:bg-white text-gray-700 px-3 py-1 rounded-full text-xs font-medium z-20 shadow-lg flex items-center"
+                    >
+                      <SplitSquareHorizontal className="w-3 h-3 mr-1" />
+                      Compare
+                    </button>
+                  )}
                 </div>
                 
-                {/* Background Color Picker */}
+                {/* Background */}
                 <div className="space-y-4">
                   <div className="flex items-center justify-between">
-                    <label className="text-sm font-medium text-gray-700">Background Color</label>
+                    <label className="text-sm font-medium text-gray-700">Background</label>
                     <button
-                      onClick={() => setShowColorPicker(!showColorPicker)}
+                      onClick={() => setShowBackgroundPanel(!showBackgroundPanel)}
                       className="flex items-center space-x-2 bg-gray-100 hover:bg-gray-200 px-3 py-2 rounded-lg transition-colors"
                     >
-                      <Palette className="w-4 h-4 text-gray-600" />
+                      <Layers className="w-4 h-4 text-gray-600" />
                       <span className="text-sm text-gray-600">Change</span>
                     </button>
                   </div>
                   
-                  {showColorPicker && (
-                    <div className="flex space-x-2">
-                      {['#ffffff', '#000000', '#ff0000', '#00ff00', '#0000ff', '#ffff00', '#ff00ff', '#00ffff'].map((color) => (
-                        <button
-                          key={color}
-                          onClick={() => setBackgroundColor(color)}
-                          className="w-8 h-8 rounded-lg border-2 border-gray-300 hover:border-gray-400 transition-colors"
-                          style={{ backgroundColor: color }}
-                        />
-                      ))}
-                      <input
-                        type="color"
-                        value={backgroundColor}
-                        onChange={(e) => setBackgroundColor(e.target.value)}
-                        className="w-8 h-8 rounded-lg border-2 border-gray-300 hover:border-gray-400 transition-colors"
-                      />
+                  {showBackgroundPanel && (
+                    <BackgroundPanel
+                      spec={composition}
+                      onChange={setComposition}
+                      canBlur={!!compositionSources?.original}
+                    />
+                  )}
+                </div>
+                
+                {!processedImage.result.cropped && !processedImage.result.despilled && (
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm font-medium text-gray-700">Edges</label>
+                      <button
+                        onClick={() => setShowEdgeCleanup(!showEdgeCleanup)}
+                        className="flex items-center space-x-2 bg-gray-100 hover:bg-gray-200 px-3 py-2 rounded-lg transition-colors"
+                      >
+                        <Sparkles className="w-4 h-4 text-gray-600" />
+                        <span className="text-sm text-gray-600">Clean up</span>
+                      </button>
                     </div>
+
+                    {showEdgeCleanup && (
+                      <EdgeCleanupPanel options={decontamination} onChange={setDecontamination} />
+                    )}
+                  </div>
+                )}
+
+                <LayoutPanel layout={layout} onChange={setLayout} />
+                
+                {/* Export */}
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <label className="text-sm font-medium text-gray-700">Export</label>
+                    <button
+                      onClick={() => setShowExportPanel(!showExportPanel)}
+                      className="flex items-center space-x-2 bg-gray-100 hover:bg-gray-200 px-3 py-2 rounded-lg transition-colors"
+                    >
+                      <Settings className="w-4 h-4 text-gray-600" />
+                      <span className="text-sm text-gray-600">Options</span>
+                    </button>
+                  </div>
+                  
+                  {showExportPanel && (
+                    <ExportPanel
+                      settings={exportSettings}
+                      onChange={setExportSettings}
+                      sampleName={originalFile?.name ?? 'image'}
+                    />
                   )}
                 </div>
                 
-                {/* Download Buttons */}
-                <div className="grid grid-cols-2 gap-4">
+                {/* Download Button */}
+                <button
+                  onClick={downloadImage}
+                  className="w-full bg-gradient-to-r from-green-600 to-teal-600 text-white py-3 rounded-lg font-medium hover:from-green-700 hover:to-teal-700 transition-all duration-200 transform hover:scale-105 flex items-center justify-center"
+                >
+                  <Download className="w-5 h-5 mr-2" />
+                  {exportSettings.content === 'mask' ? 'Mask' : EXPORT_FORMATS[exportSettings.format].label}
+                  {exportSettings.content === 'image+mask' && ' + Mask'}
+                </button>
+                {isClipboardWriteSupported() && (
                   <button
-                    onClick={() => downloadImage('png')}
-                    className="bg-gradient-to-r from-green-600 to-teal-600 text-white py-3 rounded-lg font-medium hover:from-green-700 hover:to-teal-700 transition-all duration-200 transform hover:scale-105 flex items-center justify-center"
+                    onClick={copyResult}
+                    className="w-full bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 rounded-lg text-sm font-medium transition-colors flex items-center justify-center"
                   >
-                    <Download className="w-5 h-5 mr-2" />
-                    PNG
+                    {copiedResult ? <ClipboardCheck className="w-4 h-4 mr-2" /> : <Copy className="w-4 h-4 mr-2" />}
+                    {copiedResult ? 'Copied' : 'Copy to clipboard (PNG)'}
                   </button>
+                )}
+                {processedImage.result.output && (
                   <button
-                    onClick={() => downloadImage('jpg')}
-                    className="bg-gradient-to-r from-blue-600 to-purple-600 text-white py-3 rounded-lg font-medium hover:from-blue-700 hover:to-purple-700 transition-all duration-200 transform hover:scale-105 flex items-center justify-center"
+                    onClick={downloadProviderOutput}
+                    className="w-full bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 rounded-lg text-sm font-medium transition-colors flex items-center justify-center"
                   >
-                    <Download className="w-5 h-5 mr-2" />
-                    JPG
+                    <Download className="w-4 h-4 mr-2" />
+                    Original {providerRegistry.get(processedImage.providerId).name} file ({processedImage.result.output.extension.toUpperCase()})
                   </button>
-                </div>
+                )}
               </div>
             ) : (
               <div className="h-64 bg-gray-50 rounded-lg flex items-center justify-center">
@@ -370,10 +1109,10 @@ function App() {
         </div>
 
         {/* Batch Processing Section */}
-        <div className="mt-12 bg-white rounded-2xl shadow-lg p-8">
+        <div ref={batchSectionRef} className="mt-12 bg-white rounded-2xl shadow-lg p-8">
           <h3 className="text-2xl font-semibold text-gray-900 mb-6 flex items-center">
             <Plus className="w-6 h-6 mr-2 text-purple-600" />
-            Batch Processing (Up to 10 images)
+            Batch Processing (Up to {MAX_BATCH_IMAGES} images)
           </h3>
           
           {batchImages.length === 0 ? (
@@ -382,18 +1121,18 @@ function App() {
                 <Plus className="w-8 h-8 text-white" />
               </div>
               <p className="text-gray-600 mb-4">
-                Select multiple images to process in batch (max 10)
+                Select multiple images or a ZIP archive to process in batch (max {MAX_BATCH_IMAGES})
               </p>
               <button
                 onClick={() => batchFileInputRef.current?.click()}
                 className="bg-gradient-to-r from-purple-600 to-blue-600 text-white px-6 py-3 rounded-lg font-medium hover:from-purple-700 hover:to-blue-700 transition-all duration-200 transform hover:scale-105"
               >
-                Select Images
+                Select Images or ZIP
               </button>
               <input
                 ref={batchFileInputRef}
                 type="file"
-                accept="image/*"
+                accept={`${IMAGE_ACCEPT},${ZIP_ACCEPT}`}
                 multiple
                 onChange={handleBatchFileSelect}
                 className="hidden"
@@ -407,19 +1146,57 @@ function App() {
                   {batchImages.length} image{batchImages.length !== 1 ? 's' : ''} selected
                 </p>
                 <div className="flex space-x-3">
+                  <ProviderSelect
+                    providers={providerRegistry.list()}
+                    value={providerId}
+                    onChange={setProviderId}
+                    disabled={isBatchProcessing}
+                  />
+                  <LayoutPanel layout={layout} onChange={setLayout} compact />
+                  <select
+                    value={batchConcurrency}
+                    onChange={(e) => setBatchConcurrency(Number(e.target.value))}
+                    disabled={isBatchProcessing}
+                    className="bg-gray-100 text-gray-700 px-3 py-2 rounded-lg text-sm"
+                    title="Images processed at the same time"
+                  >
+                    {[1, 2, 3, 4, 5].map((n) => (
+                      <option key={n} value={n}>{n} at a time</option>
+                    ))}
+                  </select>
                   <button
                     onClick={() => batchFileInputRef.current?.click()}
-                    className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg font-medium transition-colors"
+                    disabled={batchImages.length >= MAX_BATCH_IMAGES}
+                    className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
                   >
                     Add More
                   </button>
                   <button
                     onClick={resetBatch}
-                    className="bg-red-100 hover:bg-red-200 text-red-700 px-4 py-2 rounded-lg font-medium transition-colors"
+                    className="bg-red-100 hover:bg-red-200 text-red-700 px-4 py-2 rounded-lg font-medium transition-colors flex items-center"
                   >
+                    <Trash2 className="w-4 h-4 mr-2" />
                     Clear All
                   </button>
-                  {!isBatchProcessing && batchImages.some(img => !img.processed) && (
+                  {isBatchProcessing && (
+                    <button
+                      onClick={cancelBatch}
+                      className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg font-medium transition-colors flex items-center"
+                    >
+                      <X className="w-4 h-4 mr-2" />
+                      Cancel
+                    </button>
+                  )}
+                  {!isBatchProcessing && batchImages.some(img => img.status === 'failed') && (
+                    <button
+                      onClick={retryFailedBatchImages}
+                      className="bg-yellow-100 hover:bg-yellow-200 text-yellow-800 px-4 py-2 rounded-lg font-medium transition-colors flex items-center"
+                    >
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Retry Failed
+                    </button>
+                  )}
+                  {!isBatchProcessing && batchImages.some(img => img.status === 'queued') && (
                     <button
                       onClick={processBatchImages}
                       className="bg-gradient-to-r from-purple-600 to-blue-600 text-white px-6 py-2 rounded-lg font-medium hover:from-purple-700 hover:to-blue-700 transition-all duration-200 transform hover:scale-105 flex items-center"
@@ -432,13 +1209,56 @@ function App() {
                 <input
                   ref={batchFileInputRef}
                   type="file"
-                  accept="image/*"
+                  accept={`${IMAGE_ACCEPT},${ZIP_ACCEPT}`}
                   multiple
                   onChange={handleBatchFileSelect}
                   className="hidden"
                 />
               </div>
               
+              {photoroom && (
+                <PhotoroomSettings
+                  options={photoroomOptions}
+                  onChange={updatePhotoroomOptions}
+                  disabled={isBatchProcessing}
+                />
+              )}
+
+              {provider.cacheKey && (
+                <CacheSettings
+                  cache={resultCache}
+                  enabled={cacheEnabled}
+                  onEnabledChange={setCacheEnabled}
+                  disabled={isBatchProcessing}
+                />
+              )}
+              
+              {batchImages.some(img => img.processed) && (
+                <div className="flex justify-end items-center space-x-3">
+                  <select
+                    value={batchZipFormat}
+                    onChange={(e) => setBatchZipFormat(e.target.value as ExportFormat)}
+                    disabled={batchZipProgress !== null}
+                    className="bg-gray-100 text-gray-700 px-3 py-2 rounded-lg text-sm"
+                    title="JPG files get each image's background color"
+                  >
+                    {(['png', 'jpg'] as ExportFormat[]).map((format) => (
+                      <option key={format} value={format}>{EXPORT_FORMATS[format].label}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={downloadBatchZip}
+                    disabled={isBatchProcessing || batchZipProgress !== null}
+                    className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50 flex items-center"
+                  >
+                    <FileArchive className="w-4 h-4 mr-2" />
+                    {batchZipProgress
+                      ? `Zipping ${batchZipProgress.done}/${batchZipProgress.total}...`
+                      : 'Download All as ZIP'}
+                  </button>
+                </div>
+              )}
+
               {/* Batch Images Grid */}
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                 {batchImages.map((image) => (
@@ -459,10 +1279,20 @@ function App() {
                       </button>
                       {image.processed && (
                         <div className="absolute top-2 left-2 bg-green-500 text-white px-2 py-1 rounded text-xs font-medium">
-                          ✨ Processed
+                          ✨ {image.cached ? 'Cached' : 'Processed'}
+                        </div>
+                      )}
+                      {image.status === 'queued' && (
+                        <div className="absolute top-2 left-2 bg-gray-500 text-white px-2 py-1 rounded text-xs font-medium">
+                          Queued
+                        </div>
+                      )}
+                      {image.status === 'failed' && (
+                        <div className="absolute top-2 left-2 bg-red-500 text-white px-2 py-1 rounded text-xs font-medium">
+                          Failed
                         </div>
                       )}
-                      {image.isProcessing && (
+                      {image.status === 'running' && (
                         <div className="absolute inset-0 bg-black bg-opacity-50 rounded-lg flex items-center justify-center">
                           <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-white"></div>
                         </div>
@@ -473,6 +1303,11 @@ function App() {
                     <p className="text-sm text-gray-600 truncate" title={image.filename}>
                       {image.filename}
                     </p>
+                    {image.error && (
+                      <p className="text-xs text-red-600" title={image.error}>
+                        {image.error}
+                      </p>
+                    )}
                     
                     {/* Background Color Picker (only if processed) */}
                     {image.processed && (
@@ -523,16 +1358,23 @@ function App() {
               </div>
               
               {/* Batch Processing Status */}
-              {isBatchProcessing && (
+              {isBatchProcessing && batchProgress && (
                 <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
                   <div className="flex items-center justify-center">
                     <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-purple-600 mr-3"></div>
                     <span className="font-medium text-purple-800">
-                      Processing batch images with Photoroom AI...
+                      Processing batch images with {provider.name}...
                     </span>
                   </div>
+                  <div className="mt-3 h-2 bg-purple-100 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-purple-600 transition-all duration-300"
+                      style={{ width: `${((batchProgress.done + batchProgress.failed) / Math.max(1, batchProgress.total)) * 100}%` }}
+                    />
+                  </div>
                   <div className="mt-2 text-center text-sm text-purple-600">
-                    {batchImages.filter(img => img.processed).length} of {batchImages.length} completed
+                    {batchProgress.done} of {batchProgress.total} completed
+                    {batchProgress.failed > 0 && ` · ${batchProgress.failed} failed`}
                   </div>
                 </div>
               )}
@@ -540,6 +1382,24 @@ function App() {
           )}
         </div>
 
+        {/* Video & Animation Section */}
+        <div className="mt-12 bg-white rounded-2xl shadow-lg p-8">
+          <h3 className="text-2xl font-semibold text-gray-900 mb-6 flex items-center">
+            <Film className="w-6 h-6 mr-2 text-purple-600" />
+            Video & Animated GIFs
+          </h3>
+          <AnimationRemoval
+            remover={withCache(provider)}
+            providerSelect={
+              <ProviderSelect
+                providers={providerRegistry.list()}
+                value={providerId}
+                onChange={setProviderId}
+              />
+            }
+          />
+        </div>
+
         {/* Features Section */}
         <div className="mt-20">
           <h3 className="text-3xl font-bold text-center text-gray-900 mb-12">
@@ -614,6 +1474,36 @@ function App() {
           </div>
         </div>
       </footer>
+
+      {showApiKeySettings && (
+        <ApiKeySettings
+          api={photoroomAPI.current}
+          store={apiKeyStore}
+          source={apiKeySource}
+          onSourceChange={setApiKeySource}
+          onClose={() => setShowApiKeySettings(false)}
+        />
+      )}
+
+      {showComparison && processedImage && compositionSources && (
+        <ComparisonViewer
+          before={processedImage.result.cropped ? null : compositionSources.original ?? null}
+          after={compositionSources.subject}
+          mask={processedImage.result.mask}
+          onClose={() => setShowComparison(false)}
+        />
+      )}
+
+      {showHistory && (
+        <HistoryPanel
+          store={historyStore}
+          currentId={historyId}
+          providerName={providerName}
+          onOpen={openHistoryEntry}
+          onDeleted={handleHistoryDeleted}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,352 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, Download, Film, Loader2, X, Zap } from 'lucide-react';
+import type { BackgroundRemover } from '../providers';
+import {
+  ANIMATION_ACCEPT,
+  decodeAnimation,
+  DEFAULT_DECODE_ANIMATION_OPTIONS,
+  DecodeAnimationOptions,
+  isVideoFile,
+} from '../utils/animation';
+import {
+  ANIMATION_FORMATS,
+  AnimationFormat,
+  AnimationFrame,
+  encodeAnimation,
+  isAnimationFormatSupported,
+} from '../utils/animationEncoders';
+import { removeAnimationBackground } from '../utils/animationRemoval';
+import { downloadBlob } from '../utils/download';
+import { toImageData } from '../utils/imageData';
+import { DEFAULT_TEMPORAL_SMOOTHING, TemporalSmoothingOptions } from '../utils/temporalSmoothing';
+
+interface AnimationRemovalProps {
+  remover: BackgroundRemover;
+  // Provider selector rendered next to the controls
+  providerSelect: React.ReactNode;
+}
+
+type Stage = 'decoding' | 'removing' | 'encoding';
+
+type DecodeSettings = Omit<DecodeAnimationOptions, 'signal' | 'onProgress'>;
+
+const STAGE_LABELS: Record<Stage, string> = {
+  decoding: 'Reading frames',
+  removing: 'Removing backgrounds',
+  encoding: 'Encoding',
+};
+
+const FPS_CHOICES = [6, 12, 24, 30];
+const MAX_FRAME_CHOICES = [30, 60, 120, 240];
+const MAX_DIMENSION_CHOICES = [360, 480, 720, 1080];
+
+const CHECKERBOARD: React.CSSProperties = {
+  backgroundImage: `
+    linear-gradient(45deg, #d4d4d4 25%, transparent 25%),
+    linear-gradient(-45deg, #d4d4d4 25%, transparent 25%),
+    linear-gradient(45deg, transparent 75%, #d4d4d4 75%),
+    linear-gradient(-45deg, transparent 75%, #d4d4d4 75%)
+  `,
+  backgroundColor: '#ffffff',
+  backgroundSize: '20px 20px',
+  backgroundPosition: '0 0, 0 10px, 10px -10px, -10px 0px'
+};
+
+function baseName(file: File): string {
+  return file.name.replace(/\.[^.]+$/, '') || 'animation';
+}
+
+function AnimationRemoval({ remover, providerSelect }: AnimationRemovalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [settings, setSettings] = useState<DecodeSettings>(DEFAULT_DECODE_ANIMATION_OPTIONS);
+  const [smoothing, setSmoothing] = useState<TemporalSmoothingOptions>(DEFAULT_TEMPORAL_SMOOTHING);
+  const [format, setFormat] = useState<AnimationFormat>('webm');
+  const [supportedFormats, setSupportedFormats] = useState<AnimationFormat[]>([]);
+  const [stage, setStage] = useState<Stage | null>(null);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [frames, setFrames] = useState<AnimationFrame[]>([]);
+  const [previewFrame, setPreviewFrame] = useState<AnimationFrame | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const formats = Object.keys(ANIMATION_FORMATS) as AnimationFormat[];
+    Promise.all(formats.map(isAnimationFormatSupported)).then((supported) => {
+      const available = formats.filter((_, i) => supported[i]);
+      setSupportedFormats(available);
+      setFormat(current => available.includes(current) ? current : available[0] ?? current);
+    });
+  }, []);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Loop the finished animation; while processing, show the latest frame
+  useEffect(() => {
+    if (stage === 'removing' || frames.length === 0) return;
+    let index = 0;
+    let timer: ReturnType<typeof setTimeout>;
+    const show = () => {
+      setPreviewFrame(frames[index]);
+      timer = setTimeout(show, frames[index].duration);
+      index = (index + 1) % frames.length;
+    };
+    show();
+    return () => clearTimeout(timer);
+  }, [frames, stage]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !previewFrame) return;
+    const { width, height } = previewFrame.image;
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    canvas.getContext('2d')!.putImageData(toImageData(previewFrame.image), 0, 0);
+  }, [previewFrame]);
+
+  const selectFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+    setFile(selected);
+    setFrames([]);
+    setPreviewFrame(null);
+    setError(null);
+    setNotice(null);
+  };
+
+  const process = async () => {
+    if (!file) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setNotice(null);
+    setFrames([]);
+    setPreviewFrame(null);
+    const onProgress = (done: number, total: number) => setProgress({ done, total });
+
+    try {
+      setStage('decoding');
+      const decoded = await decodeAnimation(file, { ...settings, signal: controller.signal, onProgress });
+      if (decoded.truncated) {
+        setNotice(`Only the first ${decoded.frames.length} frames are processed. Raise the frame limit to include more.`);
+      }
+
+      setStage('removing');
+      setProgress({ done: 0, total: decoded.frames.length });
+      const processed = await removeAnimationBackground(remover, decoded.frames, {
+        smoothing,
+        signal: controller.signal,
+        onFrame: (done, total, frame) => {
+          setProgress({ done, total });
+          setPreviewFrame(frame);
+        },
+      });
+      setFrames(processed);
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        console.error('Animation processing failed:', error);
+        setError(error instanceof Error ? error.message : 'Failed to process this file.');
+      }
+    } finally {
+      setStage(null);
+      abortRef.current = null;
+    }
+  };
+
+  const download = async () => {
+    if (!file || frames.length === 0) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setStage('encoding');
+    setProgress({ done: 0, total: frames.length });
+    try {
+      const name = `${baseName(file)}-no-bg`;
+      const blob = await encodeAnimation(frames, format, {
+        name,
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      downloadBlob(blob, `${name}.${ANIMATION_FORMATS[format].extension}`);
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        console.error('Animation export failed:', error);
+        setError(error instanceof Error ? error.message : 'Failed to encode the animation.');
+      }
+    } finally {
+      setStage(null);
+      abortRef.current = null;
+    }
+  };
+
+  const busy = stage !== null;
+  const video = file ? isVideoFile(file) : false;
+
+  const select = (label: string, value: number, choices: number[], describe: (n: number) => string, onChange: (n: number) => void) => (
+    <label className="block">
+      <span className="block text-xs text-gray-600 mb-1">{label}</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        disabled={busy}
+        className="w-full bg-white border border-gray-200 text-gray-700 px-3 py-2 rounded-lg text-sm"
+      >
+        {choices.map((choice) => (
+          <option key={choice} value={choice}>{describe(choice)}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy}
+            className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50 flex items-center"
+          >
+            <Film className="w-4 h-4 mr-2" />
+            {file ? 'Choose Another File' : 'Choose Video or GIF'}
+          </button>
+          {providerSelect}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ANIMATION_ACCEPT}
+            onChange={selectFile}
+            className="hidden"
+          />
+        </div>
+
+        {file && (
+          <p className="text-sm text-gray-600 truncate" title={file.name}>
+            {file.name}
+          </p>
+        )}
+
+        <div className="bg-gray-50 rounded-lg p-4 space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            {select('Frame rate', settings.fps, FPS_CHOICES, n => `${n} fps`, fps => setSettings({ ...settings, fps }))}
+            {select('Frame limit', settings.maxFrames, MAX_FRAME_CHOICES, n => `${n} frames`, maxFrames => setSettings({ ...settings, maxFrames }))}
+            {select('Max size', settings.maxDimension, MAX_DIMENSION_CHOICES, n => `${n}px`, maxDimension => setSettings({ ...settings, maxDimension }))}
+          </div>
+          {file && !video && (
+            <p className="text-xs text-gray-500">Animated images keep their own frame timing.</p>
+          )}
+
+          <label className="block">
+            <div className="flex justify-between text-xs text-gray-600 mb-1">
+              <span>Flicker reduction</span>
+              <span className="font-medium text-gray-900">{Math.round(smoothing.strength * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={Math.round(smoothing.strength * 100)}
+              onChange={(e) => setSmoothing({ ...smoothing, strength: Number(e.target.value) / 100 })}
+              disabled={busy}
+              className="w-full accent-purple-600"
+            />
+          </label>
+          <p className="text-xs text-gray-500">
+            Blends each frame's mask with the previous one where the picture doesn't move.
+          </p>
+        </div>
+
+        {!remover.capabilities.offline && (
+          <div className="flex items-start bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg p-3 text-sm">
+            <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+            <span>
+              {remover.name} is called once per frame, up to {settings.maxFrames} requests for this file.
+              Pick an on-device provider to avoid API costs.
+            </span>
+          </div>
+        )}
+
+        <div className="flex items-center space-x-3">
+          {busy ? (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-6 py-2 rounded-lg font-medium transition-colors flex items-center"
+            >
+              <X className="w-4 h-4 mr-2" />
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={process}
+              disabled={!file}
+              className="bg-gradient-to-r from-purple-600 to-blue-600 text-white px-6 py-2 rounded-lg font-medium hover:from-purple-700 hover:to-blue-700 transition-all duration-200 disabled:opacity-50 flex items-center"
+            >
+              <Zap className="w-4 h-4 mr-2" />
+              Remove Background
+            </button>
+          )}
+          {stage && (
+            <span className="text-sm text-gray-600 flex items-center">
+              <Loader2 className="w-4 h-4 mr-2 animate-spin text-purple-600" />
+              {STAGE_LABELS[stage]}
+              {progress.total > 0 && ` ${progress.done}/${progress.total}`}
+            </span>
+          )}
+        </div>
+
+        {error && (
+          <div className="flex items-start bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">
+            <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+        {notice && <p className="text-xs text-gray-500">{notice}</p>}
+      </div>
+
+      <div className="space-y-4">
+        <div
+          className="rounded-xl overflow-hidden h-80 flex items-center justify-center"
+          style={CHECKERBOARD}
+        >
+          {previewFrame ? (
+            <canvas ref={canvasRef} className="max-w-full max-h-full object-contain" />
+          ) : (
+            <p className="text-sm text-gray-500 bg-white/90 px-3 py-1 rounded-full">
+              The cutout plays here
+            </p>
+          )}
+        </div>
+
+        {frames.length > 0 && (
+          <div className="flex items-center space-x-3">
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as AnimationFormat)}
+              disabled={busy}
+              className="flex-1 bg-gray-100 text-gray-700 px-3 py-2 rounded-lg text-sm"
+            >
+              {supportedFormats.map((value) => (
+                <option key={value} value={value}>{ANIMATION_FORMATS[value].label}</option>
+              ))}
+            </select>
+            <button
+              onClick={download}
+              disabled={busy || supportedFormats.length === 0}
+              className="bg-gradient-to-r from-purple-600 to-blue-600 text-white px-6 py-2 rounded-lg font-medium hover:from-purple-700 hover:to-blue-700 transition-all duration-200 disabled:opacity-50 flex items-center"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default AnimationRemoval;
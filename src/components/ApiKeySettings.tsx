@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { KeyRound, Lock, X } from 'lucide-react';
+import { ApiKeySource, ApiKeyStore, getDefaultApiKey } from '../utils/apiKeyStore';
+import type { PhotoroomAPI } from '../utils/photoroomAPI';
+
+interface ApiKeySettingsProps {
+  api: PhotoroomAPI;
+  store: ApiKeyStore;
+  source: ApiKeySource;
+  onSourceChange: (source: ApiKeySource) => void;
+  onClose: () => void;
+}
+
+type Message = { tone: 'success' | 'warning' | 'error'; text: string };
+
+const MESSAGE_COLORS: Record<Message['tone'], string> = {
+  success: 'text-green-700',
+  warning: 'text-amber-700',
+  error: 'text-red-600',
+};
+
+const SOURCE_LABELS: Record<ApiKeySource, string> = {
+  stored: 'Using the key saved in this browser.',
+  env: 'Using the default key configured for this deployment.',
+  locked: 'A passphrase-protected key is saved. Unlock it to use Photoroom.',
+  none: 'No key configured. Photoroom AI is unavailable until you add one.',
+};
+
+function ApiKeySettings({ api, store, source, onSourceChange, onClose }: ApiKeySettingsProps) {
+  const [apiKey, setApiKey] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [unlockPassphrase, setUnlockPassphrase] = useState('');
+  const [message, setMessage] = useState<Message | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const run = async (action: () => Promise<Message>) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      setMessage(await action());
+    } catch (error) {
+      setMessage({ tone: 'error', text: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // null when Photoroom couldn't be asked (offline, blocked, server error)
+  const checkKey = async (): Promise<{ valid: boolean | null; reason?: string }> => {
+    try {
+      return { valid: await api.validateApiKey(apiKey) };
+    } catch (error) {
+      return { valid: null, reason: error instanceof Error ? error.message : String(error) };
+    }
+  };
+
+  const validate = () => run(async () => {
+    const { valid, reason } = await checkKey();
+    if (valid === null) return { tone: 'warning', text: `The key could not be checked. ${reason}` };
+    return valid
+      ? { tone: 'success', text: 'The key is valid.' }
+      : { tone: 'error', text: 'Photoroom rejected this key.' };
+  });
+
+  const save = () => run(async () => {
+    const { valid, reason } = await checkKey();
+    if (valid === false) {
+      return { tone: 'error', text: 'Photoroom rejected this key, so it was not saved.' };
+    }
+    await store.save(apiKey.trim(), passphrase || undefined);
+    api.setApiKey(apiKey);
+    onSourceChange('stored');
+    setApiKey('');
+    setPassphrase('');
+    const saved = passphrase ? 'Key saved and encrypted.' : 'Key saved.';
+    return valid
+      ? { tone: 'success', text: saved }
+      : { tone: 'warning', text: `${saved} It could not be checked, so it may not work. ${reason}` };
+  });
+
+  const unlock = () => run(async () => {
+    api.setApiKey(await store.unlock(unlockPassphrase));
+    onSourceChange('stored');
+    setUnlockPassphrase('');
+    return { tone: 'success', text: 'Key unlocked for this session.' };
+  });
+
+  const remove = () => {
+    store.clear();
+    const fallback = getDefaultApiKey();
+    api.setApiKey(fallback);
+    onSourceChange(fallback ? 'env' : 'none');
+    setMessage({ tone: 'success', text: 'Saved key removed.' });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md p-6 space-y-5" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-semibold text-gray-900 flex items-center">
+            <KeyRound className="w-5 h-5 mr-2 text-purple-600" />
+            Photoroom API key
+          </h3>
+          <button onClick={onClose} className="p-2 rounded-lg text-gray-500 hover:bg-gray-100">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {api.isProxied() ? (
+          <p className="text-sm text-gray-600">
+            Requests go through the proxy at <span className="font-mono">{api.getBaseUrl()}</span>, which holds the key. Nothing needs to be configured here.
+          </p>
+        ) : (
+          <>
+            <p className={`text-sm ${source === 'none' || source === 'locked' ? 'text-amber-700' : 'text-gray-600'}`}>
+              {SOURCE_LABELS[source]}
+            </p>
+
+            {source === 'locked' && (
+              <div className="flex space-x-2">
+                <input
+                  type="password"
+                  value={unlockPassphrase}
+                  onChange={(e) => setUnlockPassphrase(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && unlock()}
+                  placeholder="Passphrase"
+                  className="flex-1 bg-gray-100 text-gray-700 px-3 py-2 rounded-lg text-sm"
+                />
+                <button
+                  onClick={unlock}
+                  disabled={isBusy || !unlockPassphrase}
+                  className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center disabled:opacity-50"
+                >
+                  <Lock className="w-4 h-4 mr-2" />
+                  Unlock
+                </button>
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <label className="block text-xs text-gray-600">
+                <span className="block mb-1">New API key</span>
+                <input
+                  type="password"
+                  value={apiKey}
+                  onChange={(e) => setApiKey(e.target.value)}
+                  placeholder="sk_pr_…"
+                  autoComplete="off"
+                  className="w-full bg-gray-100 text-gray-700 px-3 py-2 rounded-lg text-sm font-mono"
+                />
+              </label>
+              <label className="block text-xs text-gray-600">
+                <span className="block mb-1">Encryption passphrase (optional)</span>
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder="Leave empty to store the key unencrypted"
+                  autoComplete="new-password"
+                  className="w-full bg-gray-100 text-gray-700 px-3 py-2 rounded-lg text-sm"
+                />
+              </label>
+              <div className="grid grid-cols-2 gap-3">
+                <button
+                  onClick={validate}
+                  disabled={isBusy || !apiKey.trim()}
+                  className="bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                >
+                  Test key
+                </button>
+                <button
+                  onClick={save}
+                  disabled={isBusy || !apiKey.trim()}
+                  className="bg-gradient-to-r from-purple-600 to-blue-600 text-white py-2 rounded-lg text-sm font-medium hover:from-purple-700 hover:to-blue-700 transition-colors disabled:opacity-50"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+
+            {message && (
+              <p className={`text-sm ${MESSAGE_COLORS[message.tone]}`}>{message.text}</p>
+            )}
+
+            {store.hasStoredKey() && (
+              <button onClick={remove} className="text-sm text-red-600 hover:text-red-700">
+                Remove saved key
+              </button>
+            )}
+
+            <p className="text-xs text-gray-500">
+              Keys are kept only in this browser. Anyone with access to this device can read an unencrypted key.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ApiKeySettings;
@@ -0,0 +1,216 @@
+import React from 'react';
+import {
+  BackgroundSpec,
+  CompositionSpec,
+  DEFAULT_CONTACT_SHADOW,
+  DEFAULT_DROP_SHADOW,
+  ImageFit,
+} from '../utils/compositor';
+
+interface BackgroundPanelProps {
+  spec: CompositionSpec;
+  onChange: (spec: CompositionSpec) => void;
+  // Blur needs the original photo
+  canBlur: boolean;
+}
+
+const SWATCHES = ['#ffffff', '#000000', '#ff0000', '#00ff00', '#0000ff', '#ffff00', '#ff00ff', '#00ffff'];
+
+const BACKGROUND_TYPES: { type: BackgroundSpec['type']; label: string }[] = [
+  { type: 'transparent', label: 'None' },
+  { type: 'color', label: 'Color' },
+  { type: 'linear-gradient', label: 'Linear' },
+  { type: 'radial-gradient', label: 'Radial' },
+  { type: 'image', label: 'Image' },
+  { type: 'blur', label: 'Blur' },
+];
+
+function Slider({ label, value, min, max, step, suffix = '', onChange }: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  suffix?: string;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="block">
+      <div className="flex justify-between text-xs text-gray-600 mb-1">
+        <span>{label}</span>
+        <span className="font-medium text-gray-900">{value}{suffix}</span>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full accent-purple-600"
+      />
+    </label>
+  );
+}
+
+function BackgroundPanel({ spec, onChange, canBlur }: BackgroundPanelProps) {
+  const { background } = spec;
+  const setBackground = (next: BackgroundSpec) => onChange({ ...spec, background: next });
+
+  const selectType = (type: BackgroundSpec['type']) => {
+    switch (type) {
+      case 'transparent':
+        return setBackground({ type });
+      case 'color':
+        return setBackground({ type, color: '#ffffff' });
+      case 'linear-gradient':
+        return setBackground({ type, from: '#a855f7', to: '#3b82f6', angle: 135 });
+      case 'radial-gradient':
+        return setBackground({ type, inner: '#ffffff', outer: '#d1d5db' });
+      case 'blur':
+        return setBackground({ type, radius: 2 });
+      case 'image':
+        // Chosen through the file input below
+        return;
+    }
+  };
+
+  const handleImageSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const image = await createImageBitmap(file);
+    setBackground({ type: 'image', image, fit: background.type === 'image' ? background.fit : 'cover' });
+  };
+
+  const colorInput = (value: string, onColor: (color: string) => void) => (
+    <input
+      type="color"
+      value={value}
+      onChange={(e) => onColor(e.target.value)}
+      className="w-8 h-8 rounded-lg border-2 border-gray-300 hover:border-gray-400 transition-colors"
+    />
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {BACKGROUND_TYPES.filter(option => option.type !== 'blur' || canBlur).map((option) => (
+          option.type === 'image' ? (
+            <label
+              key={option.type}
+              className={`px-3 py-1 rounded-lg text-xs font-medium cursor-pointer transition-colors ${
+                background.type === 'image' ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option.label}
+              <input type="file" accept="image/*" onChange={handleImageSelect} className="hidden" />
+            </label>
+          ) : (
+            <button
+              key={option.type}
+              onClick={() => selectType(option.type)}
+              className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${
+                background.type === option.type ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option.label}
+            </button>
+          )
+        ))}
+      </div>
+
+      {background.type === 'color' && (
+        <div className="flex space-x-2">
+          {SWATCHES.map((color) => (
+            <button
+              key={color}
+              onClick={() => setBackground({ type: 'color', color })}
+              className={`w-8 h-8 rounded-lg border-2 transition-colors ${
+                background.color === color ? 'border-purple-500' : 'border-gray-300 hover:border-gray-400'
+              }`}
+              style={{ backgroundColor: color }}
+            />
+          ))}
+          {colorInput(background.color, (color) => setBackground({ type: 'color', color }))}
+        </div>
+      )}
+
+      {background.type === 'linear-gradient' && (
+        <div className="space-y-3">
+          <div className="flex items-center space-x-2">
+            {colorInput(background.from, (from) => setBackground({ ...background, from }))}
+            {colorInput(background.to, (to) => setBackground({ ...background, to }))}
+          </div>
+          <Slider label="Angle" value={background.angle} min={0} max={360} step={5} suffix="°" onChange={(angle) => setBackground({ ...background, angle })} />
+        </div>
+      )}
+
+      {background.type === 'radial-gradient' && (
+        <div className="flex items-center space-x-2">
+          {colorInput(background.inner, (inner) => setBackground({ ...background, inner }))}
+          {colorInput(background.outer, (outer) => setBackground({ ...background, outer }))}
+        </div>
+      )}
+
+      {background.type === 'image' && (
+        <div className="flex space-x-2">
+          {(['cover', 'contain', 'tile'] as ImageFit[]).map((fit) => (
+            <button
+              key={fit}
+              onClick={() => setBackground({ ...background, fit })}
+              className={`px-3 py-1 rounded-lg text-xs font-medium capitalize transition-colors ${
+                background.fit === fit ? 'bg-purple-100 text-purple-800' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {fit}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {background.type === 'blur' && (
+        <Slider label="Blur strength" value={background.radius} min={0.5} max={6} step={0.5} suffix="%" onChange={(radius) => setBackground({ type: 'blur', radius })} />
+      )}
+
+      <div className="border-t border-gray-200 pt-4 space-y-3">
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={!!spec.dropShadow}
+            onChange={(e) => onChange({ ...spec, dropShadow: e.target.checked ? DEFAULT_DROP_SHADOW : null })}
+            className="accent-purple-600"
+          />
+          <span>Drop shadow</span>
+        </label>
+        {spec.dropShadow && (
+          <div className="grid grid-cols-2 gap-3">
+            <Slider label="Opacity" value={spec.dropShadow.opacity} min={0} max={1} step={0.05} onChange={(opacity) => onChange({ ...spec, dropShadow: { ...spec.dropShadow!, opacity } })} />
+            <Slider label="Softness" value={spec.dropShadow.blur} min={0} max={10} step={0.5} suffix="%" onChange={(blur) => onChange({ ...spec, dropShadow: { ...spec.dropShadow!, blur } })} />
+            <Slider label="Offset X" value={spec.dropShadow.offsetX} min={-10} max={10} step={0.5} suffix="%" onChange={(offsetX) => onChange({ ...spec, dropShadow: { ...spec.dropShadow!, offsetX } })} />
+            <Slider label="Offset Y" value={spec.dropShadow.offsetY} min={-10} max={10} step={0.5} suffix="%" onChange={(offsetY) => onChange({ ...spec, dropShadow: { ...spec.dropShadow!, offsetY } })} />
+          </div>
+        )}
+
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={!!spec.contactShadow}
+            onChange={(e) => onChange({ ...spec, contactShadow: e.target.checked ? DEFAULT_CONTACT_SHADOW : null })}
+            className="accent-purple-600"
+          />
+          <span>Contact shadow</span>
+        </label>
+        {spec.contactShadow && (
+          <div className="grid grid-cols-2 gap-3">
+            <Slider label="Opacity" value={spec.contactShadow.opacity} min={0} max={1} step={0.05} onChange={(opacity) => onChange({ ...spec, contactShadow: { ...spec.contactShadow!, opacity } })} />
+            <Slider label="Width" value={spec.contactShadow.spread} min={0.3} max={1.5} step={0.05} onChange={(spread) => onChange({ ...spec, contactShadow: { ...spec.contactShadow!, spread } })} />
+            <Slider label="Height" value={spec.contactShadow.height} min={1} max={20} step={1} suffix="%" onChange={(height) => onChange({ ...spec, contactShadow: { ...spec.contactShadow!, height } })} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default BackgroundPanel;
@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import { Database } from 'lucide-react';
+import { CACHE_SIZE_CHOICES, CacheStats, ResultCache } from '../utils/resultCache';
+import { formatBytes } from '../utils/preprocess';
+
+interface CacheSettingsProps {
+  cache: ResultCache;
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  disabled?: boolean;
+}
+
+function CacheSettings({ cache, enabled, onEnabledChange, disabled }: CacheSettingsProps) {
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [maxBytes, setMaxBytes] = useState(cache.getMaxBytes());
+
+  useEffect(() => {
+    const refresh = () => {
+      cache.stats().then(setStats).catch((error) => {
+        console.error('Failed to read result cache:', error);
+      });
+    };
+    refresh();
+    return cache.subscribe(refresh);
+  }, [cache]);
+
+  const changeMaxBytes = (value: number) => {
+    setMaxBytes(value);
+    cache.setMaxBytes(value).catch((error) => {
+      console.error('Failed to resize result cache:', error);
+    });
+  };
+
+  const clear = () => {
+    cache.clear().catch((error) => {
+      console.error('Failed to clear result cache:', error);
+    });
+  };
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-900 flex items-center">
+          <Database className="w-4 h-4 mr-2 text-purple-600" />
+          Result Cache
+        </h4>
+        <button
+          onClick={clear}
+          disabled={disabled || !stats?.entries}
+          className="text-xs text-red-600 hover:text-red-700 disabled:opacity-50"
+        >
+          Clear cache
+        </button>
+      </div>
+
+      <label className="flex items-center text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          disabled={disabled}
+          className="mr-2 accent-purple-600"
+        />
+        Reuse results for images processed before
+      </label>
+
+      <div className="flex items-center justify-between text-xs text-gray-600">
+        <span>
+          {stats ? `${stats.entries} cached ${stats.entries === 1 ? 'result' : 'results'}, ${formatBytes(stats.size)}` : '…'}
+        </span>
+        <label className="flex items-center">
+          <span className="mr-1">Limit</span>
+          <select
+            value={maxBytes}
+            onChange={(e) => changeMaxBytes(Number(e.target.value))}
+            disabled={disabled}
+            className="bg-white border border-gray-200 text-gray-700 px-2 py-1 rounded text-xs"
+          >
+            {CACHE_SIZE_CHOICES.map((choice) => (
+              <option key={choice} value={choice}>{formatBytes(choice)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+}
+
+export default CacheSettings;
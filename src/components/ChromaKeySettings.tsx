@@ -0,0 +1,231 @@
+import { useEffect, useRef, useState } from 'react';
+import { Pipette } from 'lucide-react';
+import type { ChromaKeyProvider } from '../providers';
+import { rasterToObjectUrl } from '../utils/imageData';
+import { CHROMA_KEY_COLORS, ChromaKeyOptions, ChromaKeySpace, GarbageMatte } from '../utils/chromaKey';
+
+interface ChromaKeySettingsProps {
+  provider: ChromaKeyProvider;
+  file: File | null;
+  options: ChromaKeyOptions;
+  onChange: (options: ChromaKeyOptions) => void;
+  onApply?: () => void;
+}
+
+const PREVIEW_DEBOUNCE_MS = 150;
+
+const SPACES: { value: ChromaKeySpace; label: string }[] = [
+  { value: 'ycbcr', label: 'YCbCr' },
+  { value: 'hsv', label: 'HSV (ignores brightness)' },
+];
+
+// Garbage matte edited as margins from each side, in percent
+type MatteSide = 'left' | 'right' | 'top' | 'bottom';
+
+const MATTE_SIDES: { side: MatteSide; label: string }[] = [
+  { side: 'left', label: 'Left' },
+  { side: 'right', label: 'Right' },
+  { side: 'top', label: 'Top' },
+  { side: 'bottom', label: 'Bottom' },
+];
+
+const MAX_MATTE_MARGIN = 45;
+const DEFAULT_MATTE: GarbageMatte = { x: 0.1, y: 0.05, width: 0.8, height: 0.9 };
+
+function matteMargins(matte: GarbageMatte): Record<MatteSide, number> {
+  return {
+    left: Math.round(matte.x * 100),
+    right: Math.round((1 - matte.x - matte.width) * 100),
+    top: Math.round(matte.y * 100),
+    bottom: Math.round((1 - matte.y - matte.height) * 100),
+  };
+}
+
+function matteFromMargins(margins: Record<MatteSide, number>): GarbageMatte {
+  return {
+    x: margins.left / 100,
+    y: margins.top / 100,
+    width: (100 - margins.left - margins.right) / 100,
+    height: (100 - margins.top - margins.bottom) / 100,
+  };
+}
+
+function ChromaKeySettings({ provider, file, options, onChange, onApply }: ChromaKeySettingsProps) {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const previewUrlRef = useRef<string | null>(null);
+
+  useEffect(() => () => {
+    if (previewUrlRef.current) URL.revokeObjectURL(previewUrlRef.current);
+  }, []);
+
+  // Re-render a downscaled preview whenever the settings change
+  useEffect(() => {
+    if (!file) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsRendering(true);
+      try {
+        const result = await provider.preview(file, options, { signal: controller.signal });
+        if (controller.signal.aborted) return;
+        const url = await rasterToObjectUrl(result.image);
+        if (previewUrlRef.current) URL.revokeObjectURL(previewUrlRef.current);
+        previewUrlRef.current = url;
+        setPreviewUrl(url);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Preview failed:', error);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsRendering(false);
+        }
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [provider, file, options]);
+
+  const percentSlider = (label: string, key: 'tolerance' | 'softness' | 'spillSuppression', max: number) => (
+    <label className="block">
+      <div className="flex justify-between text-xs text-gray-600 mb-1">
+        <span>{label}</span>
+        <span className="font-medium text-gray-900">{Math.round(options[key] * 100)}%</span>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={max}
+        value={Math.round(options[key] * 100)}
+        onChange={(e) => onChange({ ...options, [key]: Number(e.target.value) / 100 })}
+        className="w-full accent-purple-600"
+      />
+    </label>
+  );
+
+  const margins = options.garbageMatte ? matteMargins(options.garbageMatte) : null;
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-900 flex items-center">
+          <Pipette className="w-4 h-4 mr-2 text-purple-600" />
+          Chroma Key
+        </h4>
+        <select
+          value={options.space}
+          onChange={(e) => onChange({ ...options, space: e.target.value as ChromaKeySpace })}
+          className="bg-white border border-gray-200 text-gray-700 px-2 py-1 rounded text-sm"
+          title="Color space the distance to the key color is measured in"
+        >
+          {SPACES.map((space) => (
+            <option key={space.value} value={space.value}>{space.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <span className="text-xs text-gray-600 mr-1">Key color</span>
+        {CHROMA_KEY_COLORS.map(({ label, color }) => (
+          <button
+            key={color}
+            onClick={() => onChange({ ...options, keyColor: color })}
+            title={label}
+            className={`w-6 h-6 rounded border-2 transition-colors ${
+              options.keyColor === color ? 'border-gray-700' : 'border-gray-300'
+            }`}
+            style={{ backgroundColor: color }}
+          />
+        ))}
+        <input
+          type="color"
+          value={options.keyColor}
+          onChange={(e) => onChange({ ...options, keyColor: e.target.value })}
+          className="w-8 h-8 rounded cursor-pointer"
+          title="Pick the screen color"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        {percentSlider('Tolerance', 'tolerance', 50)}
+        {percentSlider('Softness', 'softness', 50)}
+        {percentSlider('Spill suppression', 'spillSuppression', 100)}
+      </div>
+
+      <div className="space-y-3">
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={options.garbageMatte !== null}
+            onChange={(e) => onChange({ ...options, garbageMatte: e.target.checked ? DEFAULT_MATTE : null })}
+            className="mr-2 accent-purple-600"
+          />
+          Garbage matte (drop everything outside a rectangle)
+        </label>
+        {margins && (
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {MATTE_SIDES.map(({ side, label }) => (
+              <label key={side} className="block">
+                <div className="flex justify-between text-xs text-gray-600 mb-1">
+                  <span>{label}</span>
+                  <span className="font-medium text-gray-900">{margins[side]}%</span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={MAX_MATTE_MARGIN}
+                  value={margins[side]}
+                  onChange={(e) => onChange({
+                    ...options,
+                    garbageMatte: matteFromMargins({ ...margins, [side]: Number(e.target.value) }),
+                  })}
+                  className="w-full accent-purple-600"
+                />
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {file && (
+        <div className="relative">
+          <div
+            className="absolute inset-0 rounded-lg"
+            style={{
+              backgroundImage: `
+                linear-gradient(45deg, #e5e5e5 25%, transparent 25%),
+                linear-gradient(-45deg, #e5e5e5 25%, transparent 25%),
+                linear-gradient(45deg, transparent 75%, #e5e5e5 75%),
+                linear-gradient(-45deg, transparent 75%, #e5e5e5 75%)
+              `,
+              backgroundSize: '16px 16px',
+              backgroundPosition: '0 0, 0 8px, 8px -8px, -8px 0px'
+            }}
+          />
+          {previewUrl && (
+            <img src={previewUrl} alt="Preview" className="w-full h-40 object-contain rounded-lg relative" />
+          )}
+          {!previewUrl && <div className="h-40" />}
+          {isRendering && (
+            <div className="absolute top-2 right-2 animate-spin rounded-full h-4 w-4 border-b-2 border-purple-600"></div>
+          )}
+        </div>
+      )}
+
+      {onApply && (
+        <button
+          onClick={onApply}
+          className="w-full bg-purple-100 hover:bg-purple-200 text-purple-800 py-2 rounded-lg text-sm font-medium transition-colors"
+        >
+          Apply to full image
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default ChromaKeySettings;
@@ -0,0 +1,294 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Maximize, Scan, SplitSquareHorizontal, X, ZoomIn, ZoomOut } from 'lucide-react';
+import type { SizedImageSource } from '../utils/compositor';
+import type { AlphaMask } from '../utils/imageData';
+
+interface ComparisonViewerProps {
+  // Untouched photo; null when it doesn't line up with the result (cropped output)
+  before: SizedImageSource | null;
+  after: SizedImageSource;
+  mask: AlphaMask;
+  onClose: () => void;
+}
+
+type ViewerBackground = 'checkerboard' | 'black' | 'white' | 'color';
+
+interface View {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+// Screen pixels per image pixel at maximum zoom
+const MAX_PIXEL_SCALE = 16;
+const ZOOM_STEP = 1.5;
+const FIT_VIEW: View = { zoom: 1, x: 0, y: 0 };
+
+const BACKGROUNDS: { value: ViewerBackground; label: string }[] = [
+  { value: 'checkerboard', label: 'Checkerboard' },
+  { value: 'black', label: 'Black' },
+  { value: 'white', label: 'White' },
+  { value: 'color', label: 'Color' },
+];
+
+const CHECKERBOARD: React.CSSProperties = {
+  backgroundImage: `
+    linear-gradient(45deg, #d4d4d4 25%, transparent 25%),
+    linear-gradient(-45deg, #d4d4d4 25%, transparent 25%),
+    linear-gradient(45deg, transparent 75%, #d4d4d4 75%),
+    linear-gradient(-45deg, transparent 75%, #d4d4d4 75%)
+  `,
+  backgroundColor: '#ffffff',
+  backgroundSize: '20px 20px',
+  backgroundPosition: '0 0, 0 10px, 10px -10px, -10px 0px'
+};
+
+// Draws an image source once; CSS handles the scaling
+function Layer({ source, pixelated }: { source: SizedImageSource; pixelated: boolean }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = source.width;
+    canvas.height = source.height;
+    canvas.getContext('2d')!.drawImage(source, 0, 0);
+  }, [source]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="w-full h-full object-contain"
+      style={{ imageRendering: pixelated ? 'pixelated' : 'auto' }}
+    />
+  );
+}
+
+function maskToCanvas(mask: AlphaMask): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = mask.width;
+  canvas.height = mask.height;
+  const ctx = canvas.getContext('2d')!;
+  const image = ctx.createImageData(mask.width, mask.height);
+  for (let i = 0; i < mask.data.length; i++) {
+    image.data[i * 4] = mask.data[i];
+    image.data[i * 4 + 1] = mask.data[i];
+    image.data[i * 4 + 2] = mask.data[i];
+    image.data[i * 4 + 3] = 255;
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+}
+
+function ComparisonViewer({ before, after, mask, onClose }: ComparisonViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ mode: 'pan' | 'split'; x: number; y: number; view: View } | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [view, setView] = useState<View>(FIT_VIEW);
+  const [split, setSplit] = useState(50);
+  const [showSplit, setShowSplit] = useState(before !== null);
+  const [showMask, setShowMask] = useState(false);
+  const [background, setBackground] = useState<ViewerBackground>('checkerboard');
+  const [color, setColor] = useState('#22c55e');
+  const maskCanvas = useMemo(() => (showMask ? maskToCanvas(mask) : null), [showMask, mask]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Scale of the fitted image relative to its own pixels
+  const fitScale = size.width > 0 ? Math.min(size.width / after.width, size.height / after.height) : 1;
+  const maxZoom = Math.max(1, MAX_PIXEL_SCALE / fitScale);
+  const pixelScale = fitScale * view.zoom;
+
+  const clampView = (next: View): View => {
+    const zoom = Math.min(maxZoom, Math.max(1, next.zoom));
+    return {
+      zoom,
+      x: Math.min(0, Math.max(size.width - size.width * zoom, next.x)),
+      y: Math.min(0, Math.max(size.height - size.height * zoom, next.y)),
+    };
+  };
+
+  // Zoom keeping the given container point in place
+  const zoomAt = (zoom: number, pointX = size.width / 2, pointY = size.height / 2) => {
+    setView(current => {
+      const ratio = Math.min(maxZoom, Math.max(1, zoom)) / current.zoom;
+      return clampView({
+        zoom: current.zoom * ratio,
+        x: pointX - (pointX - current.x) * ratio,
+        y: pointY - (pointY - current.y) * ratio,
+      });
+    });
+  };
+
+  // Wheel zoom needs a non-passive listener to stop the page from scrolling
+  const zoomAtRef = useRef(zoomAt);
+  zoomAtRef.current = zoomAt;
+  const viewRef = useRef(view);
+  viewRef.current = view;
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      const factor = Math.exp(-e.deltaY * 0.002);
+      zoomAtRef.current(viewRef.current.zoom * factor, e.clientX - rect.left, e.clientY - rect.top);
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent, mode: 'pan' | 'split') => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, x: e.clientX, y: e.clientY, view };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (drag.mode === 'split') {
+      const rect = containerRef.current!.getBoundingClientRect();
+      setSplit(Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)));
+    } else {
+      setView(clampView({ ...drag.view, x: drag.view.x + e.clientX - drag.x, y: drag.view.y + e.clientY - drag.y }));
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const afterBackground: React.CSSProperties = showMask
+    ? { backgroundColor: '#000000' }
+    : background === 'checkerboard'
+      ? CHECKERBOARD
+      : { backgroundColor: background === 'color' ? color : background };
+  const transform = `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`;
+  const pixelated = pixelScale >= 2;
+  const splitVisible = showSplit && before !== null;
+
+  const toolButton = (active: boolean, onClick: () => void, icon: React.ReactNode, label: string, disabled = false) => (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      title={label}
+      className={`flex items-center px-3 py-2 rounded-lg text-xs font-medium transition-colors disabled:opacity-50 ${
+        active ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+      }`}
+    >
+      {icon}
+      <span className="ml-1 hidden sm:inline">{label}</span>
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-6xl h-full max-h-[90vh] p-4 flex flex-col space-y-3" onClick={(e) => e.stopPropagation()}>
+        <div className="flex flex-wrap items-center gap-2">
+          {toolButton(splitVisible, () => setShowSplit(!showSplit), <SplitSquareHorizontal className="w-4 h-4" />, 'Before/after', before === null)}
+          {toolButton(showMask, () => setShowMask(!showMask), <Scan className="w-4 h-4" />, 'Mask only')}
+          <select
+            value={background}
+            onChange={(e) => setBackground(e.target.value as ViewerBackground)}
+            disabled={showMask}
+            className="bg-gray-100 text-gray-700 px-3 py-2 rounded-lg text-xs disabled:opacity-50"
+          >
+            {BACKGROUNDS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          {background === 'color' && !showMask && (
+            <input
+              type="color"
+              value={color}
+              onChange={(e) => setColor(e.target.value)}
+              className="w-8 h-8 rounded cursor-pointer"
+            />
+          )}
+
+          <div className="flex items-center gap-2 ml-auto">
+            <button onClick={() => zoomAt(view.zoom / ZOOM_STEP)} title="Zoom out" className="p-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200">
+              <ZoomOut className="w-4 h-4" />
+            </button>
+            <span className="text-xs text-gray-600 w-14 text-center">{Math.round(pixelScale * 100)}%</span>
+            <button onClick={() => zoomAt(view.zoom * ZOOM_STEP)} title="Zoom in" className="p-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200">
+              <ZoomIn className="w-4 h-4" />
+            </button>
+            <button onClick={() => zoomAt(1 / fitScale)} title="Actual pixels" className="px-3 py-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 text-xs font-medium">
+              1:1
+            </button>
+            <button onClick={() => setView(FIT_VIEW)} title="Fit to view" className="p-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200">
+              <Maximize className="w-4 h-4" />
+            </button>
+            <button onClick={onClose} className="p-2 rounded-lg text-gray-500 hover:bg-gray-100">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div
+          ref={containerRef}
+          className="relative flex-1 rounded-lg overflow-hidden bg-gray-900 touch-none select-none cursor-grab active:cursor-grabbing"
+          onPointerDown={(e) => handlePointerDown(e, 'pan')}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onDoubleClick={() => setView(FIT_VIEW)}
+        >
+          {splitVisible && before && (
+            <div className="absolute inset-0">
+              <div className="w-full h-full origin-top-left" style={{ transform }}>
+                <Layer source={before} pixelated={pixelated} />
+              </div>
+            </div>
+          )}
+
+          <div
+            className="absolute inset-0"
+            style={{ ...afterBackground, clipPath: splitVisible ? `inset(0 0 0 ${split}%)` : undefined }}
+          >
+            <div className="w-full h-full origin-top-left" style={{ transform }}>
+              {showMask && maskCanvas
+                ? <Layer source={maskCanvas} pixelated={pixelated} />
+                : <Layer source={after} pixelated={pixelated} />}
+            </div>
+          </div>
+
+          {splitVisible && (
+            <>
+              <div className="absolute top-2 left-2 bg-black/60 text-white px-2 py-1 rounded text-xs">Before</div>
+              <div className="absolute top-2 right-2 bg-black/60 text-white px-2 py-1 rounded text-xs">
+                {showMask ? 'Mask' : 'After'}
+              </div>
+              <div
+                className="absolute top-0 bottom-0 w-6 -ml-3 cursor-ew-resize flex justify-center"
+                style={{ left: `${split}%` }}
+                onPointerDown={(e) => handlePointerDown(e, 'split')}
+              >
+                <div className="w-0.5 h-full bg-white shadow" />
+                <div className="absolute top-1/2 -mt-4 w-8 h-8 rounded-full bg-white shadow-lg flex items-center justify-center">
+                  <SplitSquareHorizontal className="w-4 h-4 text-purple-600" />
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <p className="text-xs text-gray-500">
+          Scroll to zoom, drag to pan, double-click to fit.{splitVisible && ' Drag the handle to move the split.'}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default ComparisonViewer;
@@ -0,0 +1,31 @@
+import { useEffect, useRef } from 'react';
+import { CompositionSources, CompositionSpec, renderComposition } from '../utils/compositor';
+
+interface CompositePreviewProps {
+  sources: CompositionSources;
+  spec: CompositionSpec;
+  // Render as the JPG export would look (no transparency)
+  opaque: boolean;
+  className?: string;
+}
+
+const PREVIEW_MAX_SIZE = 800;
+
+function CompositePreview({ sources, spec, opaque, className = '' }: CompositePreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const { width, height } = sources.subject;
+    const scale = Math.min(1, PREVIEW_MAX_SIZE / Math.max(width, height));
+    const rendered = renderComposition(sources, spec, Math.round(width * scale), Math.round(height * scale), opaque);
+    canvas.width = rendered.width;
+    canvas.height = rendered.height;
+    canvas.getContext('2d')!.drawImage(rendered, 0, 0);
+  }, [sources, spec, opaque]);
+
+  return <canvas ref={canvasRef} className={className} />;
+}
+
+export default CompositePreview;
@@ -0,0 +1,69 @@
+import { Sparkles } from 'lucide-react';
+import type { DecontaminationOptions, RGB } from '../utils/edgeDecontamination';
+
+interface EdgeCleanupPanelProps {
+  options: DecontaminationOptions;
+  onChange: (options: DecontaminationOptions) => void;
+}
+
+function toHex([r, g, b]: RGB): string {
+  return `#${[r, g, b].map(value => Math.round(value).toString(16).padStart(2, '0')).join('')}`;
+}
+
+function fromHex(hex: string): RGB {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+function EdgeCleanupPanel({ options, onChange }: EdgeCleanupPanelProps) {
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 space-y-4">
+      <h4 className="text-sm font-semibold text-gray-900 flex items-center">
+        <Sparkles className="w-4 h-4 mr-2 text-purple-600" />
+        Edge Cleanup
+      </h4>
+
+      <label className="block">
+        <div className="flex justify-between text-xs text-gray-600 mb-1">
+          <span>Color spill removal</span>
+          <span className="font-medium text-gray-900">{Math.round(options.strength * 100)}%</span>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          value={Math.round(options.strength * 100)}
+          onChange={(e) => onChange({ ...options, strength: Number(e.target.value) / 100 })}
+          className="w-full accent-purple-600"
+        />
+      </label>
+
+      <div className="flex items-center justify-between">
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={options.background !== null}
+            onChange={(e) => onChange({ ...options, background: e.target.checked ? [255, 255, 255] : null })}
+            className="mr-2 accent-purple-600"
+          />
+          Set old background color
+        </label>
+        {options.background && (
+          <input
+            type="color"
+            value={toHex(options.background)}
+            onChange={(e) => onChange({ ...options, background: fromHex(e.target.value) })}
+            className="w-8 h-8 rounded cursor-pointer"
+          />
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Removes the tint the old background leaves on hair and soft edges.
+        {!options.background && ' The background color is detected automatically.'}
+      </p>
+    </div>
+  );
+}
+
+export default EdgeCleanupPanel;
@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import {
+  EXPORT_FORMATS,
+  ExportContent,
+  ExportFormat,
+  ExportSettings,
+  formatFilename,
+  isFormatSupported,
+} from '../utils/exporter';
+
+interface ExportPanelProps {
+  settings: ExportSettings;
+  onChange: (settings: ExportSettings) => void;
+  // Used to preview the filename template
+  sampleName: string;
+}
+
+const CONTENT_OPTIONS: { value: ExportContent; label: string }[] = [
+  { value: 'image', label: 'Cutout' },
+  { value: 'mask', label: 'Mask only' },
+  { value: 'image+mask', label: 'Cutout + mask' },
+];
+
+const FORMATS = Object.keys(EXPORT_FORMATS) as ExportFormat[];
+
+function ExportPanel({ settings, onChange, sampleName }: ExportPanelProps) {
+  const [supported, setSupported] = useState<Partial<Record<ExportFormat, boolean>>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(FORMATS.map(format => isFormatSupported(format))).then((results) => {
+      if (cancelled) return;
+      setSupported(Object.fromEntries(FORMATS.map((format, i) => [format, results[i]])));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const info = EXPORT_FORMATS[settings.format];
+  const preview = formatFilename(settings.filenameTemplate, {
+    name: sampleName,
+    width: 0,
+    height: 0,
+    format: settings.format,
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <label className="block text-xs text-gray-600">
+          <span className="block mb-1">Format</span>
+          <select
+            value={settings.format}
+            onChange={(e) => onChange({ ...settings, format: e.target.value as ExportFormat })}
+            className="w-full bg-gray-100 text-gray-700 px-2 py-1 rounded text-sm"
+          >
+            {FORMATS.map((format) => (
+              <option key={format} value={format} disabled={supported[format] === false}>
+                {EXPORT_FORMATS[format].label}{supported[format] === false ? ' (not supported)' : ''}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-xs text-gray-600">
+          <span className="block mb-1">Content</span>
+          <select
+            value={settings.content}
+            onChange={(e) => onChange({ ...settings, content: e.target.value as ExportContent })}
+            className="w-full bg-gray-100 text-gray-700 px-2 py-1 rounded text-sm"
+          >
+            {CONTENT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-xs text-gray-600">
+          <span className="block mb-1">Max size (px)</span>
+          <input
+            type="number"
+            min={1}
+            max={8000}
+            placeholder="Full resolution"
+            value={settings.maxDimension ?? ''}
+            onChange={(e) => onChange({ ...settings, maxDimension: e.target.value ? Math.max(1, Number(e.target.value)) : null })}
+            className="w-full bg-gray-100 text-gray-700 px-2 py-1 rounded text-sm"
+          />
+        </label>
+        <label className="block">
+          <div className="flex justify-between text-xs text-gray-600 mb-1">
+            <span>Quality</span>
+            <span className="font-medium text-gray-900">{info.lossy ? Math.round(settings.quality * 100) : 'Lossless'}</span>
+          </div>
+          <input
+            type="range"
+            min={0.1}
+            max={1}
+            step={0.05}
+            value={settings.quality}
+            onChange={(e) => onChange({ ...settings, quality: Number(e.target.value) })}
+            disabled={!info.lossy}
+            className="w-full accent-purple-600 disabled:opacity-50"
+          />
+        </label>
+      </div>
+
+      <label className="block text-xs text-gray-600">
+        <span className="block mb-1">File name</span>
+        <input
+          type="text"
+          value={settings.filenameTemplate}
+          onChange={(e) => onChange({ ...settings, filenameTemplate: e.target.value })}
+          className="w-full bg-gray-100 text-gray-700 px-2 py-1 rounded text-sm font-mono"
+        />
+        <span className="block mt-1 text-gray-500">
+          {'{name} {width} {height} {format} {date}'} → {preview}.{info.extension}
+        </span>
+      </label>
+    </div>
+  );
+}
+
+export default ExportPanel;
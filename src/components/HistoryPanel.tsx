@@ -0,0 +1,191 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Download, FolderOpen, HardDrive, History, Trash2, X } from 'lucide-react';
+import type { HistoryEntry, HistoryStore, StorageUsage } from '../utils/historyStore';
+import { downloadBlob } from '../utils/download';
+import { formatBytes } from '../utils/preprocess';
+
+interface HistoryPanelProps {
+  store: HistoryStore;
+  // Entry currently open in the editor
+  currentId: string | null;
+  providerName: (providerId: string) => string;
+  onOpen: (id: string) => void;
+  onDeleted: (ids: string[]) => void;
+  onClose: () => void;
+}
+
+function HistoryPanel({ store, currentId, providerName, onOpen, onDeleted, onClose }: HistoryPanelProps) {
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const policy = store.getPolicy();
+
+  const refresh = useCallback(async () => {
+    try {
+      const [list, estimate] = await Promise.all([store.list(), store.estimateUsage()]);
+      setEntries(list);
+      setUsage(estimate);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to read history:', err);
+      setError('History is not available in this browser.');
+      setEntries([]);
+    }
+  }, [store]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!entries) return;
+    const urls: Record<string, string> = {};
+    entries.forEach(entry => {
+      urls[entry.id] = URL.createObjectURL(entry.thumbnail);
+    });
+    setThumbnails(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [entries]);
+
+  const remove = async (ids: string[]) => {
+    try {
+      await store.delete(ids);
+      onDeleted(ids);
+    } catch (err) {
+      console.error('Failed to delete history entries:', err);
+      setError('Failed to delete. Please try again.');
+    }
+    refresh();
+  };
+
+  const clearAll = async () => {
+    if (!entries || !confirm('Delete all saved projects?')) return;
+    await remove(entries.map(entry => entry.id));
+  };
+
+  const download = async (entry: HistoryEntry) => {
+    try {
+      downloadBlob(await store.loadImage(entry.id), `${entry.filename.replace(/\.[^.]+$/, '')}-background-removed.png`);
+    } catch (err) {
+      console.error('Failed to load history entry:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load this project.');
+    }
+  };
+
+  const historySize = entries?.reduce((sum, entry) => sum + entry.size, 0) ?? 0;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl p-6 space-y-5 max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-semibold text-gray-900 flex items-center">
+            <History className="w-5 h-5 mr-2 text-purple-600" />
+            History
+          </h3>
+          <button onClick={onClose} className="p-2 rounded-lg text-gray-500 hover:bg-gray-100">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="bg-gray-50 rounded-lg p-4 space-y-2">
+          <div className="flex justify-between text-xs text-gray-600">
+            <span className="flex items-center">
+              <HardDrive className="w-3 h-3 mr-1" />
+              {entries?.length ?? 0} projects, {formatBytes(historySize)}
+            </span>
+            {usage && (
+              <span>{formatBytes(usage.usage)} of {formatBytes(usage.quota)} browser storage used</span>
+            )}
+          </div>
+          {usage && (
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className={`h-2 rounded-full ${usage.usage / usage.quota > policy.maxUsage ? 'bg-amber-500' : 'bg-gradient-to-r from-purple-600 to-blue-600'}`}
+                style={{ width: `${Math.min(100, Math.max(1, (usage.usage / usage.quota) * 100))}%` }}
+              />
+            </div>
+          )}
+          <p className="text-xs text-gray-500">
+            Keeps the latest {policy.maxEntries} projects (a batch run counts as one) for {policy.maxAgeDays} days. Older projects are deleted automatically, as are the oldest ones when storage runs low.
+          </p>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="overflow-y-auto -mx-2 px-2 space-y-2 flex-1">
+          {entries === null && (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-purple-600"></div>
+            </div>
+          )}
+          {entries?.length === 0 && !error && (
+            <p className="text-sm text-gray-500 text-center py-8">Processed images will show up here.</p>
+          )}
+          {entries?.map(entry => (
+            <div
+              key={entry.id}
+              className={`flex items-center space-x-3 p-2 rounded-lg border ${entry.id === currentId ? 'border-purple-300 bg-purple-50' : 'border-gray-200'}`}
+            >
+              <div
+                className="w-16 h-16 rounded flex-shrink-0"
+                style={{
+                  backgroundImage: `
+                    linear-gradient(45deg, #e5e5e5 25%, transparent 25%),
+                    linear-gradient(-45deg, #e5e5e5 25%, transparent 25%),
+                    linear-gradient(45deg, transparent 75%, #e5e5e5 75%),
+                    linear-gradient(-45deg, transparent 75%, #e5e5e5 75%)
+                  `,
+                  backgroundSize: '8px 8px',
+                  backgroundPosition: '0 0, 0 4px, 4px -4px, -4px 0px'
+                }}
+              >
+                {thumbnails[entry.id] && (
+                  <img src={thumbnails[entry.id]} alt={entry.filename} className="w-full h-full object-contain" />
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{entry.filename}</p>
+                <p className="text-xs text-gray-500">
+                  {new Date(entry.updatedAt).toLocaleString()} · {providerName(entry.providerId)}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {entry.width}×{entry.height} · {formatBytes(entry.size)}
+                </p>
+              </div>
+              <button
+                onClick={() => onOpen(entry.id)}
+                title="Open"
+                className="p-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200"
+              >
+                <FolderOpen className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => download(entry)}
+                title="Download cutout"
+                className="p-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200"
+              >
+                <Download className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => remove([entry.id])}
+                title="Delete"
+                className="p-2 rounded-lg bg-gray-100 text-red-600 hover:bg-red-50"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {!!entries?.length && (
+          <button onClick={clearAll} className="text-sm text-red-600 hover:text-red-700 self-start">
+            Delete all projects
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default HistoryPanel;
@@ -0,0 +1,137 @@
+import { Crop } from 'lucide-react';
+import { Alignment, LAYOUT_ASPECT_RATIOS, LAYOUT_PRESETS, LayoutSpec } from '../utils/layout';
+
+interface LayoutPanelProps {
+  // null exports the image at its original framing
+  layout: LayoutSpec | null;
+  onChange: (layout: LayoutSpec | null) => void;
+  // Only show the preset picker
+  compact?: boolean;
+  disabled?: boolean;
+}
+
+const ALIGNMENTS: Alignment[] = ['start', 'center', 'end'];
+
+const HORIZONTAL_LABELS: Record<Alignment, string> = { start: 'Left', center: 'Center', end: 'Right' };
+const VERTICAL_LABELS: Record<Alignment, string> = { start: 'Top', center: 'Middle', end: 'Bottom' };
+
+function sameLayout(a: LayoutSpec, b: LayoutSpec) {
+  return (Object.keys(a) as (keyof LayoutSpec)[]).every(key => a[key] === b[key]);
+}
+
+function LayoutPanel({ layout, onChange, compact, disabled }: LayoutPanelProps) {
+  const activePreset = layout ? LAYOUT_PRESETS.find(preset => sameLayout(preset.layout, layout)) : null;
+  const selectValue = !layout ? 'original' : activePreset?.id ?? 'custom';
+
+  const presetSelect = (
+    <select
+      value={selectValue}
+      onChange={(e) => {
+        if (e.target.value === 'original') return onChange(null);
+        const preset = LAYOUT_PRESETS.find(p => p.id === e.target.value);
+        if (preset) onChange(preset.layout);
+      }}
+      disabled={disabled}
+      className="bg-gray-100 text-gray-700 px-3 py-2 rounded-lg text-sm"
+      title="Crop and canvas layout"
+    >
+      <option value="original">Original framing</option>
+      {LAYOUT_PRESETS.map((preset) => (
+        <option key={preset.id} value={preset.id}>{preset.name}</option>
+      ))}
+      {selectValue === 'custom' && <option value="custom">Custom</option>}
+    </select>
+  );
+
+  if (compact) return presetSelect;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-700 flex items-center">
+          <Crop className="w-4 h-4 mr-2 text-gray-600" />
+          Layout
+        </label>
+        {presetSelect}
+      </div>
+
+      {layout && (
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block text-xs text-gray-600">
+            <span className="block mb-1">Aspect ratio</span>
+            <select
+              value={LAYOUT_ASPECT_RATIOS.findIndex(option => option.value === layout.aspectRatio)}
+              onChange={(e) => onChange({ ...layout, aspectRatio: LAYOUT_ASPECT_RATIOS[Number(e.target.value)].value })}
+              disabled={disabled}
+              className="w-full bg-gray-100 text-gray-700 px-2 py-1 rounded text-sm"
+            >
+              {LAYOUT_ASPECT_RATIOS.map((option, i) => (
+                <option key={option.label} value={i}>{option.label}</option>
+              ))}
+              {!LAYOUT_ASPECT_RATIOS.some(option => option.value === layout.aspectRatio) && (
+                <option value={-1}>{layout.aspectRatio?.toFixed(2)}</option>
+              )}
+            </select>
+          </label>
+          <label className="block text-xs text-gray-600">
+            <span className="block mb-1">Longer side (px)</span>
+            <input
+              type="number"
+              min={1}
+              max={8000}
+              placeholder="Original"
+              value={layout.size ?? ''}
+              onChange={(e) => onChange({ ...layout, size: e.target.value ? Math.max(1, Number(e.target.value)) : null })}
+              disabled={disabled}
+              className="w-full bg-gray-100 text-gray-700 px-2 py-1 rounded text-sm"
+            />
+          </label>
+          <label className="block text-xs text-gray-600">
+            <span className="block mb-1">Horizontal</span>
+            <select
+              value={layout.horizontalAlign}
+              onChange={(e) => onChange({ ...layout, horizontalAlign: e.target.value as Alignment })}
+              disabled={disabled}
+              className="w-full bg-gray-100 text-gray-700 px-2 py-1 rounded text-sm"
+            >
+              {ALIGNMENTS.map((alignment) => (
+                <option key={alignment} value={alignment}>{HORIZONTAL_LABELS[alignment]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-xs text-gray-600">
+            <span className="block mb-1">Vertical</span>
+            <select
+              value={layout.verticalAlign}
+              onChange={(e) => onChange({ ...layout, verticalAlign: e.target.value as Alignment })}
+              disabled={disabled}
+              className="w-full bg-gray-100 text-gray-700 px-2 py-1 rounded text-sm"
+            >
+              {ALIGNMENTS.map((alignment) => (
+                <option key={alignment} value={alignment}>{VERTICAL_LABELS[alignment]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block col-span-2">
+            <div className="flex justify-between text-xs text-gray-600 mb-1">
+              <span>Padding</span>
+              <span className="font-medium text-gray-900">{layout.padding}%</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={30}
+              step={1}
+              value={layout.padding}
+              onChange={(e) => onChange({ ...layout, padding: Number(e.target.value) })}
+              disabled={disabled}
+              className="w-full accent-purple-600"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default LayoutPanel;
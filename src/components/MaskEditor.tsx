@@ -0,0 +1,331 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Brush, Eraser, Hand, Redo2, Undo2, ZoomIn, ZoomOut, Maximize, Check, X } from 'lucide-react';
+import type { RemovalResult } from '../providers';
+import { applyMask, RasterImage } from '../utils/imageData';
+import { BrushMode, MaskRect, paintDab, paintStroke, unionRect } from '../utils/maskBrush';
+import { MaskHistory } from '../utils/maskHistory';
+
+interface MaskEditorProps {
+  result: RemovalResult;
+  // Untouched original pixels, same size as the mask; despilled results use their own colors
+  source: RasterImage;
+  onApply: (result: RemovalResult) => void;
+  onCancel: () => void;
+}
+
+type EditorTool = BrushMode | 'pan';
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 16;
+
+// Despilled results keep their corrected colors. Fully transparent pixels fall
+// back to the source: a canvas round-trip (cache, history) drops RGB under alpha 0.
+function editorColors(result: RemovalResult, source: RasterImage): RasterImage {
+  if (!result.despilled) return source;
+  const data = new Uint8ClampedArray(result.image.data);
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) {
+      data[i] = source.data[i];
+      data[i + 1] = source.data[i + 1];
+      data[i + 2] = source.data[i + 2];
+    }
+  }
+  return { width: source.width, height: source.height, data };
+}
+
+function MaskEditor({ result, source, onApply, onCancel }: MaskEditorProps) {
+  const { width, height } = result.mask;
+  const colors = useMemo(() => editorColors(result, source), [result, source]);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const historyRef = useRef<MaskHistory | null>(null);
+  const compositeRef = useRef<ImageData | null>(null);
+  const strokeRef = useRef<{ last: { x: number; y: number }; dirty: MaskRect | null } | null>(null);
+  const panRef = useRef<{ clientX: number; clientY: number } | null>(null);
+
+  const [tool, setTool] = useState<EditorTool>('keep');
+  const [brushSize, setBrushSize] = useState(24);
+  const [hardness, setHardness] = useState(0.7);
+  const [zoom, setZoom] = useState(1);
+  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const [fitScale, setFitScale] = useState(1);
+  const [cursor, setCursor] = useState<{ x: number; y: number } | null>(null);
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+
+  // Copy mask alpha into the composite and repaint the changed area
+  const render = useCallback((rect: MaskRect | null) => {
+    const history = historyRef.current;
+    const composite = compositeRef.current;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!history || !composite || !ctx || !rect) return;
+
+    for (let y = rect.y; y < rect.y + rect.height; y++) {
+      for (let x = rect.x; x < rect.x + rect.width; x++) {
+        const index = y * width + x;
+        composite.data[index * 4 + 3] = history.mask.data[index];
+      }
+    }
+    ctx.putImageData(composite, 0, 0, rect.x, rect.y, rect.width, rect.height);
+  }, [width]);
+
+  const syncHistoryState = () => {
+    setCanUndo(historyRef.current?.canUndo() ?? false);
+    setCanRedo(historyRef.current?.canRedo() ?? false);
+  };
+
+  useEffect(() => {
+    historyRef.current = new MaskHistory(result.mask);
+    const composite = applyMask(colors, result.mask);
+    compositeRef.current = new ImageData(new Uint8ClampedArray(composite.data), width, height);
+    canvasRef.current?.getContext('2d')?.putImageData(compositeRef.current, 0, 0);
+    syncHistoryState();
+  }, [result, colors, width, height]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setFitScale(Math.min(entry.contentRect.width / width, entry.contentRect.height / height));
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [width, height]);
+
+  const undo = useCallback(() => {
+    render(historyRef.current?.undo() ?? null);
+    syncHistoryState();
+  }, [render]);
+
+  const redo = useCallback(() => {
+    render(historyRef.current?.redo() ?? null);
+    syncHistoryState();
+  }, [render]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [undo, redo]);
+
+  const toMaskPoint = (e: React.PointerEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * width,
+      y: ((e.clientY - rect.top) / rect.height) * height,
+    };
+  };
+
+  const brush = { mode: tool === 'erase' ? 'erase' : 'keep', radius: brushSize / 2, hardness } as const;
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (tool === 'pan' || e.button === 1) {
+      panRef.current = { clientX: e.clientX, clientY: e.clientY };
+      return;
+    }
+
+    const history = historyRef.current;
+    if (!history) return;
+    const point = toMaskPoint(e);
+    history.beginStroke();
+    const dirty = paintDab(history.mask, point.x, point.y, brush);
+    render(dirty);
+    strokeRef.current = { last: point, dirty };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const containerRect = containerRef.current!.getBoundingClientRect();
+    setCursor({ x: e.clientX - containerRect.left, y: e.clientY - containerRect.top });
+
+    if (panRef.current) {
+      const dx = e.clientX - panRef.current.clientX;
+      const dy = e.clientY - panRef.current.clientY;
+      panRef.current = { clientX: e.clientX, clientY: e.clientY };
+      setPan(prev => ({ x: prev.x + dx, y: prev.y + dy }));
+      return;
+    }
+
+    const stroke = strokeRef.current;
+    const history = historyRef.current;
+    if (!stroke || !history) return;
+    const point = toMaskPoint(e);
+    const dirty = paintStroke(history.mask, stroke.last, point, brush);
+    render(dirty);
+    strokeRef.current = { last: point, dirty: unionRect(stroke.dirty, dirty) };
+  };
+
+  const handlePointerUp = () => {
+    panRef.current = null;
+    if (strokeRef.current) {
+      historyRef.current?.endStroke(strokeRef.current.dirty);
+      strokeRef.current = null;
+      syncHistoryState();
+    }
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    setZoom(prev => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev * (e.deltaY < 0 ? 1.1 : 1 / 1.1))));
+  };
+
+  const resetView = () => {
+    setZoom(1);
+    setPan({ x: 0, y: 0 });
+  };
+
+  const handleApply = () => {
+    const history = historyRef.current;
+    if (!history) return;
+    const mask = { width, height, data: new Uint8ClampedArray(history.mask.data) };
+    onApply({ ...result, mask, image: applyMask(colors, mask) });
+  };
+
+  const toolButton = (value: EditorTool, icon: React.ReactNode, label: string) => (
+    <button
+      onClick={() => setTool(value)}
+      title={label}
+      className={`p-2 rounded-lg transition-colors ${
+        tool === value ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+      }`}
+    >
+      {icon}
+    </button>
+  );
+
+  const screenBrushSize = brushSize * fitScale * zoom;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {toolButton('keep', <Brush className="w-4 h-4" />, 'Keep brush')}
+        {toolButton('erase', <Eraser className="w-4 h-4" />, 'Erase brush')}
+        {toolButton('pan', <Hand className="w-4 h-4" />, 'Pan')}
+        <div className="w-px h-6 bg-gray-200 mx-1" />
+        <button onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)" className="p-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-40">
+          <Undo2 className="w-4 h-4" />
+        </button>
+        <button onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" className="p-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-40">
+          <Redo2 className="w-4 h-4" />
+        </button>
+        <div className="w-px h-6 bg-gray-200 mx-1" />
+        <button onClick={() => setZoom(z => Math.max(MIN_ZOOM, z / 1.5))} title="Zoom out" className="p-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200">
+          <ZoomOut className="w-4 h-4" />
+        </button>
+        <span className="text-xs text-gray-600 w-12 text-center">{Math.round(zoom * 100)}%</span>
+        <button onClick={() => setZoom(z => Math.min(MAX_ZOOM, z * 1.5))} title="Zoom in" className="p-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200">
+          <ZoomIn className="w-4 h-4" />
+        </button>
+        <button onClick={resetView} title="Fit to view" className="p-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200">
+          <Maximize className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <label className="block">
+          <div className="flex justify-between text-xs text-gray-600 mb-1">
+            <span>Brush size</span>
+            <span className="font-medium text-gray-900">{brushSize}px</span>
+          </div>
+          <input
+            type="range"
+            min={2}
+            max={200}
+            value={brushSize}
+            onChange={(e) => setBrushSize(Number(e.target.value))}
+            className="w-full accent-purple-600"
+          />
+        </label>
+        <label className="block">
+          <div className="flex justify-between text-xs text-gray-600 mb-1">
+            <span>Hardness</span>
+            <span className="font-medium text-gray-900">{Math.round(hardness * 100)}%</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={hardness}
+            onChange={(e) => setHardness(Number(e.target.value))}
+            className="w-full accent-purple-600"
+          />
+        </label>
+      </div>
+
+      <div
+        ref={containerRef}
+        className="relative h-96 rounded-lg overflow-hidden touch-none"
+        style={{
+          backgroundImage: `
+            linear-gradient(45deg, #f0f0f0 25%, transparent 25%),
+            linear-gradient(-45deg, #f0f0f0 25%, transparent 25%),
+            linear-gradient(45deg, transparent 75%, #f0f0f0 75%),
+            linear-gradient(-45deg, transparent 75%, #f0f0f0 75%)
+          `,
+          backgroundSize: '20px 20px',
+          backgroundPosition: '0 0, 0 10px, 10px -10px, -10px 0px',
+          cursor: tool === 'pan' ? 'grab' : 'none'
+        }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={() => setCursor(null)}
+        onWheel={handleWheel}
+      >
+        <canvas
+          ref={canvasRef}
+          width={width}
+          height={height}
+          className="absolute left-1/2 top-1/2"
+          style={{
+            width: width * fitScale,
+            height: height * fitScale,
+            transform: `translate(-50%, -50%) translate(${pan.x}px, ${pan.y}px) scale(${zoom})`,
+            imageRendering: zoom * fitScale > 2 ? 'pixelated' : 'auto'
+          }}
+        />
+        {cursor && tool !== 'pan' && (
+          <div
+            className={`absolute pointer-events-none rounded-full border-2 ${tool === 'erase' ? 'border-red-500' : 'border-green-500'}`}
+            style={{
+              left: cursor.x - screenBrushSize / 2,
+              top: cursor.y - screenBrushSize / 2,
+              width: screenBrushSize,
+              height: screenBrushSize
+            }}
+          />
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <button
+          onClick={onCancel}
+          className="bg-gray-100 hover:bg-gray-200 text-gray-700 py-3 rounded-lg font-medium transition-colors flex items-center justify-center"
+        >
+          <X className="w-5 h-5 mr-2" />
+          Cancel
+        </button>
+        <button
+          onClick={handleApply}
+          className="bg-gradient-to-r from-purple-600 to-blue-600 text-white py-3 rounded-lg font-medium hover:from-purple-700 hover:to-blue-700 transition-all duration-200 flex items-center justify-center"
+        >
+          <Check className="w-5 h-5 mr-2" />
+          Apply Mask
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default MaskEditor;
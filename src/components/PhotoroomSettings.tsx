@@ -0,0 +1,115 @@
+import { Cloud } from 'lucide-react';
+import type { PhotoroomFormat, PhotoroomSize, SegmentOptions } from '../utils/photoroomAPI';
+
+interface PhotoroomSettingsProps {
+  options: SegmentOptions;
+  onChange: (options: SegmentOptions) => void;
+  disabled?: boolean;
+}
+
+const FORMATS: { value: PhotoroomFormat; label: string }[] = [
+  { value: 'png', label: 'PNG' },
+  { value: 'jpg', label: 'JPG' },
+  { value: 'webp', label: 'WebP' },
+];
+
+const SIZES: { value: PhotoroomSize; label: string }[] = [
+  { value: 'preview', label: 'Preview (0.25 MP)' },
+  { value: 'medium', label: 'Medium (1.5 MP)' },
+  { value: 'hd', label: 'HD (4 MP)' },
+  { value: 'full', label: 'Full (up to 36 MP)' },
+];
+
+function PhotoroomSettings({ options, onChange, disabled }: PhotoroomSettingsProps) {
+  const alphaOnly = options.channels === 'alpha';
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 space-y-4">
+      <h4 className="text-sm font-semibold text-gray-900 flex items-center">
+        <Cloud className="w-4 h-4 mr-2 text-purple-600" />
+        Photoroom Output
+      </h4>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <label className="block text-xs text-gray-600">
+          <span className="block mb-1">Format</span>
+          <select
+            value={options.format}
+            onChange={(e) => onChange({ ...options, format: e.target.value as PhotoroomFormat })}
+            disabled={disabled}
+            className="w-full bg-white border border-gray-200 text-gray-700 px-2 py-1 rounded text-sm"
+          >
+            {FORMATS.map((format) => (
+              <option key={format.value} value={format.value}>{format.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-xs text-gray-600">
+          <span className="block mb-1">Size</span>
+          <select
+            value={options.size}
+            onChange={(e) => onChange({ ...options, size: e.target.value as PhotoroomSize })}
+            disabled={disabled}
+            className="w-full bg-white border border-gray-200 text-gray-700 px-2 py-1 rounded text-sm"
+          >
+            {SIZES.map((size) => (
+              <option key={size.value} value={size.value}>{size.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-xs text-gray-600">
+          <span className="block mb-1">Channels</span>
+          <select
+            value={options.channels}
+            onChange={(e) => onChange({ ...options, channels: e.target.value as SegmentOptions['channels'] })}
+            disabled={disabled}
+            className="w-full bg-white border border-gray-200 text-gray-700 px-2 py-1 rounded text-sm"
+          >
+            <option value="rgba">Cutout (RGBA)</option>
+            <option value="alpha">Mask only</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-gray-700">
+        <label className={`flex items-center space-x-2 ${alphaOnly ? 'opacity-50' : ''}`}>
+          <input
+            type="checkbox"
+            checked={options.bgColor !== null}
+            onChange={(e) => onChange({ ...options, bgColor: e.target.checked ? '#ffffff' : null })}
+            disabled={disabled || alphaOnly}
+            className="accent-purple-600"
+          />
+          <span>Background color</span>
+          {options.bgColor !== null && (
+            <input
+              type="color"
+              value={options.bgColor}
+              onChange={(e) => onChange({ ...options, bgColor: e.target.value })}
+              disabled={disabled || alphaOnly}
+              className="w-6 h-6 rounded border border-gray-300"
+            />
+          )}
+        </label>
+        <label className={`flex items-center space-x-2 ${alphaOnly ? 'opacity-50' : ''}`}>
+          <input
+            type="checkbox"
+            checked={options.crop && !alphaOnly}
+            onChange={(e) => onChange({ ...options, crop: e.target.checked })}
+            disabled={disabled || alphaOnly}
+            className="accent-purple-600"
+          />
+          <span>Crop to subject</span>
+        </label>
+      </div>
+
+      {(options.format === 'jpg' || options.bgColor) && !alphaOnly && (
+        <p className="text-xs text-gray-500">
+          The result comes back without transparency, so local background and shadow effects won't show through.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default PhotoroomSettings;
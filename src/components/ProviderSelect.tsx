@@ -0,0 +1,39 @@
+import type { BackgroundRemover } from '../providers';
+
+interface ProviderSelectProps {
+  providers: BackgroundRemover[];
+  value: string;
+  onChange: (id: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+function ProviderSelect({ providers, value, onChange, disabled, className = '' }: ProviderSelectProps) {
+  const selected = providers.find(provider => provider.id === value);
+
+  return (
+    <div className={`flex items-center space-x-2 ${className}`}>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className="bg-gray-100 text-gray-700 px-3 py-2 rounded-lg text-sm"
+        title={selected?.description}
+      >
+        {providers.map((provider) => (
+          <option key={provider.id} value={provider.id}>
+            {provider.name}
+          </option>
+        ))}
+      </select>
+      {selected?.capabilities.offline && (
+        <span className="bg-green-100 text-green-700 px-2 py-1 rounded text-xs font-medium">Offline</span>
+      )}
+      {selected?.capabilities.requiresApiKey && (
+        <span className="bg-blue-100 text-blue-700 px-2 py-1 rounded text-xs font-medium">API key</span>
+      )}
+    </div>
+  );
+}
+
+export default ProviderSelect;
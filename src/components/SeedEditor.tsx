@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BoxSelect, Plus, Minus, Trash2 } from 'lucide-react';
+import type { SeedStroke, SegmentationSeeds } from '../utils/graphCut';
+
+interface SeedEditorProps {
+  imageUrl: string;
+  seeds: SegmentationSeeds;
+  onChange: (seeds: SegmentationSeeds) => void;
+  // Extra controls rendered at the end of the toolbar
+  toolbarExtra?: React.ReactNode;
+}
+
+type SeedTool = 'box' | SeedStroke['label'];
+
+const SEED_COLORS: Record<SeedStroke['label'], string> = {
+  foreground: 'rgba(34, 197, 94, 0.7)',
+  background: 'rgba(239, 68, 68, 0.7)',
+};
+
+function SeedEditor({ imageUrl, seeds, onChange, toolbarExtra }: SeedEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [tool, setTool] = useState<SeedTool>('box');
+  const [brushSize, setBrushSize] = useState(12);
+  const [draft, setDraft] = useState<SegmentationSeeds | null>(null);
+
+  const current = draft ?? seeds;
+
+  // Draw the box (dimming everything outside it) and the scribbles
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !size) return;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    const lineScale = Math.max(1, size.width / canvas.getBoundingClientRect().width);
+
+    if (current.rect) {
+      const { x, y, width, height } = current.rect;
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.4)';
+      ctx.fillRect(0, 0, size.width, size.height);
+      ctx.clearRect(x, y, width, height);
+      ctx.strokeStyle = '#9333ea';
+      ctx.lineWidth = 2 * lineScale;
+      ctx.setLineDash([6 * lineScale, 4 * lineScale]);
+      ctx.strokeRect(x, y, width, height);
+      ctx.setLineDash([]);
+    }
+
+    current.strokes.forEach(stroke => {
+      ctx.strokeStyle = SEED_COLORS[stroke.label];
+      ctx.fillStyle = SEED_COLORS[stroke.label];
+      ctx.lineWidth = stroke.radius * 2;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      ctx.beginPath();
+      stroke.points.forEach((point, i) => {
+        if (i === 0) ctx.moveTo(point.x, point.y);
+        else ctx.lineTo(point.x, point.y);
+      });
+      if (stroke.points.length === 1) {
+        ctx.arc(stroke.points[0].x, stroke.points[0].y, stroke.radius, 0, Math.PI * 2);
+        ctx.fill();
+      } else {
+        ctx.stroke();
+      }
+    });
+  }, [current, size]);
+
+  const toImagePoint = (e: React.PointerEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(size!.width, Math.max(0, ((e.clientX - rect.left) / rect.width) * size!.width)),
+      y: Math.min(size!.height, Math.max(0, ((e.clientY - rect.top) / rect.height) * size!.height)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!size) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toImagePoint(e);
+    dragRef.current = point;
+
+    if (tool === 'box') {
+      setDraft({ ...seeds, rect: { x: point.x, y: point.y, width: 0, height: 0 } });
+    } else {
+      const radius = (brushSize / 2) * (size.width / e.currentTarget.getBoundingClientRect().width);
+      setDraft({ ...seeds, strokes: [...seeds.strokes, { label: tool, radius, points: [point] }] });
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = dragRef.current;
+    if (!start || !draft) return;
+    const point = toImagePoint(e);
+
+    if (tool === 'box') {
+      setDraft({
+        ...draft,
+        rect: {
+          x: Math.min(start.x, point.x),
+          y: Math.min(start.y, point.y),
+          width: Math.abs(point.x - start.x),
+          height: Math.abs(point.y - start.y),
+        },
+      });
+    } else {
+      const strokes = draft.strokes.slice();
+      const last = strokes[strokes.length - 1];
+      strokes[strokes.length - 1] = { ...last, points: [...last.points, point] };
+      setDraft({ ...draft, strokes });
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+    if (!draft) return;
+    // Ignore accidental clicks with the box tool
+    const rect = draft.rect && draft.rect.width > 4 && draft.rect.height > 4 ? draft.rect : seeds.rect;
+    onChange({ ...draft, rect });
+    setDraft(null);
+  };
+
+  const toolButton = (value: SeedTool, icon: React.ReactNode, label: string) => (
+    <button
+      onClick={() => setTool(value)}
+      title={label}
+      className={`flex items-center px-3 py-2 rounded-lg text-xs font-medium transition-colors ${
+        tool === value ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+      }`}
+    >
+      {icon}
+      <span className="ml-1">{label}</span>
+    </button>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {toolButton('box', <BoxSelect className="w-4 h-4" />, 'Box')}
+        {toolButton('foreground', <Plus className="w-4 h-4" />, 'Keep')}
+        {toolButton('background', <Minus className="w-4 h-4" />, 'Remove')}
+        <input
+          type="range"
+          min={4}
+          max={48}
+          value={brushSize}
+          onChange={(e) => setBrushSize(Number(e.target.value))}
+          disabled={tool === 'box'}
+          title="Scribble size"
+          className="w-24 accent-purple-600"
+        />
+        <button
+          onClick={() => onChange({ rect: null, strokes: [] })}
+          title="Clear selection"
+          className="ml-auto p-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+        {toolbarExtra}
+      </div>
+
+      <div className="relative rounded-lg overflow-hidden touch-none">
+        <img
+          src={imageUrl}
+          alt="Uploaded"
+          className="w-full h-auto block select-none"
+          draggable={false}
+          onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+        />
+        {size && (
+          <canvas
+            ref={canvasRef}
+            width={size.width}
+            height={size.height}
+            className="absolute inset-0 w-full h-full cursor-crosshair"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          />
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Drag a box around the subject, then paint green over parts to keep and red over parts to remove.
+      </p>
+    </div>
+  );
+}
+
+export default SeedEditor;
@@ -0,0 +1,147 @@
+import { useEffect, useRef, useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import type { LocalPipelineProvider } from '../providers';
+import { rasterToObjectUrl } from '../utils/imageData';
+import {
+  SEGMENTATION_OPTION_RANGES,
+  SEGMENTATION_PRESETS,
+  SegmentationOptions,
+} from '../utils/segmentationOptions';
+
+interface SegmentationSettingsProps {
+  provider: LocalPipelineProvider;
+  file: File | null;
+  options: SegmentationOptions;
+  onChange: (options: SegmentationOptions) => void;
+  onApply?: () => void;
+}
+
+const PREVIEW_DEBOUNCE_MS = 150;
+
+function SegmentationSettings({ provider, file, options, onChange, onApply }: SegmentationSettingsProps) {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const previewUrlRef = useRef<string | null>(null);
+
+  useEffect(() => () => {
+    if (previewUrlRef.current) URL.revokeObjectURL(previewUrlRef.current);
+  }, []);
+
+  // Re-render a downscaled preview whenever the settings change
+  useEffect(() => {
+    if (!file) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsRendering(true);
+      try {
+        const result = await provider.preview(file, options, { signal: controller.signal });
+        if (controller.signal.aborted) return;
+        const url = await rasterToObjectUrl(result.image);
+        if (previewUrlRef.current) URL.revokeObjectURL(previewUrlRef.current);
+        previewUrlRef.current = url;
+        setPreviewUrl(url);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Preview failed:', error);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsRendering(false);
+        }
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [provider, file, options]);
+
+  const activePreset = SEGMENTATION_PRESETS.find(preset => (
+    (Object.keys(preset.options) as (keyof SegmentationOptions)[]).every(key => preset.options[key] === options[key])
+  ));
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-900 flex items-center">
+          <SlidersHorizontal className="w-4 h-4 mr-2 text-purple-600" />
+          Local AI Settings
+        </h4>
+        <select
+          value={activePreset?.id ?? 'custom'}
+          onChange={(e) => {
+            const preset = SEGMENTATION_PRESETS.find(p => p.id === e.target.value);
+            if (preset) onChange(preset.options);
+          }}
+          className="bg-white border border-gray-200 text-gray-700 px-2 py-1 rounded text-sm"
+        >
+          {SEGMENTATION_PRESETS.map((preset) => (
+            <option key={preset.id} value={preset.id}>{preset.name}</option>
+          ))}
+          {!activePreset && <option value="custom">Custom</option>}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {(Object.keys(SEGMENTATION_OPTION_RANGES) as (keyof SegmentationOptions)[]).map((key) => {
+          const range = SEGMENTATION_OPTION_RANGES[key];
+          return (
+            <label key={key} className="block">
+              <div className="flex justify-between text-xs text-gray-600 mb-1">
+                <span>{range.label}</span>
+                <span className="font-medium text-gray-900">{options[key]}</span>
+              </div>
+              <input
+                type="range"
+                min={range.min}
+                max={range.max}
+                step={range.step}
+                value={options[key]}
+                onChange={(e) => onChange({ ...options, [key]: Number(e.target.value) })}
+                className="w-full accent-purple-600"
+              />
+            </label>
+          );
+        })}
+      </div>
+
+      {file && (
+        <div className="relative">
+          <div
+            className="absolute inset-0 rounded-lg"
+            style={{
+              backgroundImage: `
+                linear-gradient(45deg, #e5e5e5 25%, transparent 25%),
+                linear-gradient(-45deg, #e5e5e5 25%, transparent 25%),
+                linear-gradient(45deg, transparent 75%, #e5e5e5 75%),
+                linear-gradient(-45deg, transparent 75%, #e5e5e5 75%)
+              `,
+              backgroundSize: '16px 16px',
+              backgroundPosition: '0 0, 0 8px, 8px -8px, -8px 0px'
+            }}
+          />
+          {previewUrl && (
+            <img src={previewUrl} alt="Preview" className="w-full h-40 object-contain rounded-lg relative" />
+          )}
+          {!previewUrl && <div className="h-40" />}
+          {isRendering && (
+            <div className="absolute top-2 right-2 animate-spin rounded-full h-4 w-4 border-b-2 border-purple-600"></div>
+          )}
+        </div>
+      )}
+
+      {onApply && (
+        <button
+          onClick={onApply}
+          className="w-full bg-purple-100 hover:bg-purple-200 text-purple-800 py-2 rounded-lg text-sm font-medium transition-colors"
+        >
+          Apply to full image
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default SegmentationSettings;
@@ -0,0 +1,54 @@
+import type { ResultCache } from '../utils/resultCache';
+import type { BackgroundRemover, ProviderCapabilities, RemovalResult, RemoveOptions } from './types';
+
+export interface CachedProviderOptions {
+  // Skip the lookup and replace whatever is cached with a fresh result
+  refresh?: boolean;
+}
+
+// Serves repeat requests from the result cache; providers without a cache key pass through
+export class CachedProvider implements BackgroundRemover {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+  readonly capabilities: ProviderCapabilities;
+
+  private inner: BackgroundRemover;
+  private cache: ResultCache;
+  private refresh: boolean;
+
+  constructor(inner: BackgroundRemover, cache: ResultCache, options: CachedProviderOptions = {}) {
+    this.inner = inner;
+    this.cache = cache;
+    this.refresh = options.refresh ?? false;
+    this.id = inner.id;
+    this.name = inner.name;
+    this.description = inner.description;
+    this.capabilities = inner.capabilities;
+  }
+
+  async remove(file: File, options: RemoveOptions = {}): Promise<RemovalResult> {
+    if (!this.inner.cacheKey) return this.inner.remove(file, options);
+
+    let key: string | null = null;
+    try {
+      key = await this.cache.keyFor(file, this.inner.id, this.inner.cacheKey());
+      const cached = this.refresh ? null : await this.cache.get(key);
+      if (cached) {
+        options.onProgress?.('Using cached result...');
+        return cached;
+      }
+    } catch (error) {
+      // A broken cache shouldn't block processing
+      console.error('Result cache lookup failed:', error);
+    }
+
+    const result = await this.inner.remove(file, options);
+    if (key) {
+      this.cache.put(key, this.inner.id, result).catch((error) => {
+        console.error('Failed to cache result:', error);
+      });
+    }
+    return result;
+  }
+}
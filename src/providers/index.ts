@@ -0,0 +1,29 @@
+import { PhotoroomAPI } from '../utils/photoroomAPI';
+import { ProviderRegistry } from './registry';
+import { PhotoroomProvider } from './photoroomProvider';
+import { ChromaKeyProvider, GraphCutProvider, LocalCenterFocusProvider, LocalPipelineProvider } from './localProvider';
+import { OnnxModelProvider } from './onnxProvider';
+import { DEFAULT_SEGMENTATION_MODEL } from '../utils/segmentationModels';
+import { LocalSegmenter } from '../utils/localSegmenter';
+
+export type { BackgroundRemover, ProviderCapabilities, RemovalResult, RemoveOptions } from './types';
+export { ProviderRegistry } from './registry';
+export { ChromaKeyProvider, GraphCutProvider, LocalPipelineProvider } from './localProvider';
+export { PhotoroomProvider } from './photoroomProvider';
+export { CachedProvider } from './cachedProvider';
+
+export const DEFAULT_PROVIDER_ID = 'photoroom';
+
+// Register new engines here; the UI lists whatever the registry holds
+export function createDefaultRegistry(photoroomAPI: PhotoroomAPI): ProviderRegistry {
+  const registry = new ProviderRegistry();
+  registry.register(new PhotoroomProvider(photoroomAPI));
+  registry.register(new OnnxModelProvider(DEFAULT_SEGMENTATION_MODEL));
+  // Local providers share one worker
+  const localSegmenter = new LocalSegmenter();
+  registry.register(new LocalPipelineProvider(localSegmenter));
+  registry.register(new LocalCenterFocusProvider(localSegmenter));
+  registry.register(new GraphCutProvider(localSegmenter));
+  registry.register(new ChromaKeyProvider(localSegmenter));
+  return registry;
+}
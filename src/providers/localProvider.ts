@@ -0,0 +1,131 @@
+import { applyMask } from '../utils/imageData';
+import { LOCAL_STAGE_LABELS, LocalSegmenter, LocalSegmentationMode } from '../utils/localSegmenter';
+import { DEFAULT_SEGMENTATION_OPTIONS, SegmentationOptions } from '../utils/segmentationOptions';
+import type { SegmentationSeeds } from '../utils/graphCut';
+import { ChromaKeyOptions, DEFAULT_CHROMA_KEY_OPTIONS } from '../utils/chromaKey';
+import type { BackgroundRemover, RemovalResult, RemoveOptions } from './types';
+
+abstract class LocalSegmenterProvider implements BackgroundRemover {
+  abstract readonly id: string;
+  abstract readonly name: string;
+  abstract readonly description: string;
+  readonly capabilities = {
+    offline: true,
+    requiresApiKey: false,
+    softAlpha: true,
+  };
+
+  protected abstract readonly mode: LocalSegmentationMode;
+  private segmenter: LocalSegmenter;
+
+  constructor(segmenter: LocalSegmenter) {
+    this.segmenter = segmenter;
+  }
+
+  remove(file: File, options: RemoveOptions = {}): Promise<RemovalResult> {
+    return this.run(file, options);
+  }
+
+  protected async run(
+    file: File,
+    options: RemoveOptions & {
+      segmentation?: SegmentationOptions;
+      seeds?: SegmentationSeeds;
+      chromaKey?: ChromaKeyOptions;
+      maxDimension?: number;
+    }
+  ): Promise<RemovalResult> {
+    const { image, mask } = await this.segmenter.segment(file, {
+      mode: this.mode,
+      options: options.segmentation,
+      seeds: options.seeds,
+      chromaKey: options.chromaKey,
+      maxDimension: options.maxDimension,
+      signal: options.signal,
+      onProgress: (stage) => options.onProgress?.(LOCAL_STAGE_LABELS[stage]),
+    });
+    return { mask, image: applyMask(image, mask) };
+  }
+}
+
+// Color segmentation pipeline running in a worker in the browser
+export class LocalPipelineProvider extends LocalSegmenterProvider {
+  readonly id = 'local';
+  readonly name = 'Local AI';
+  readonly description = 'Color segmentation on your device, no upload';
+  protected readonly mode = 'pipeline';
+  private options: SegmentationOptions = DEFAULT_SEGMENTATION_OPTIONS;
+
+  getOptions(): SegmentationOptions {
+    return this.options;
+  }
+
+  setOptions(options: SegmentationOptions) {
+    this.options = options;
+  }
+
+  remove(file: File, options: RemoveOptions = {}): Promise<RemovalResult> {
+    return this.run(file, { ...options, segmentation: this.options });
+  }
+
+  // Quick low-resolution run with candidate settings, for live previews
+  preview(file: File, segmentation: SegmentationOptions, options: RemoveOptions & { maxDimension?: number } = {}): Promise<RemovalResult> {
+    return this.run(file, { ...options, segmentation, maxDimension: options.maxDimension ?? 320 });
+  }
+}
+
+// Center-weighted radial mask, useful for centered portraits
+export class LocalCenterFocusProvider extends LocalSegmenterProvider {
+  readonly id = 'local-center';
+  readonly name = 'Center Focus';
+  readonly description = 'Keeps the center of the frame and fades the edges';
+  protected readonly mode = 'center';
+}
+
+// GrabCut-style min-cut driven by a user-drawn box and scribbles
+export class GraphCutProvider extends LocalSegmenterProvider {
+  readonly id = 'graphcut';
+  readonly name = 'Smart Select';
+  readonly description = 'Draw a box and mark foreground/background, solved on your device';
+  protected readonly mode = 'graphcut';
+  private seeds: SegmentationSeeds = { rect: null, strokes: [] };
+
+  getSeeds(): SegmentationSeeds {
+    return this.seeds;
+  }
+
+  setSeeds(seeds: SegmentationSeeds) {
+    this.seeds = seeds;
+  }
+
+  remove(file: File, options: RemoveOptions = {}): Promise<RemovalResult> {
+    return this.run(file, { ...options, seeds: this.seeds });
+  }
+}
+
+// Keyer for green/blue screen studio shots: deterministic, with soft edges and spill removal
+export class ChromaKeyProvider extends LocalSegmenterProvider {
+  readonly id = 'chromakey';
+  readonly name = 'Chroma Key';
+  readonly description = 'Keys out a green or blue screen on your device';
+  protected readonly mode = 'chromakey';
+  private options: ChromaKeyOptions = DEFAULT_CHROMA_KEY_OPTIONS;
+
+  getOptions(): ChromaKeyOptions {
+    return this.options;
+  }
+
+  setOptions(options: ChromaKeyOptions) {
+    this.options = options;
+  }
+
+  async remove(file: File, options: RemoveOptions = {}): Promise<RemovalResult> {
+    const result = await this.run(file, { ...options, chromaKey: this.options });
+    return { ...result, despilled: this.options.spillSuppression > 0 };
+  }
+
+  // Quick low-resolution run with candidate settings, for live previews
+  preview(file: File, chromaKey: ChromaKeyOptions, options: RemoveOptions & { maxDimension?: number } = {}): Promise<RemovalResult> {
+    return this.run(file, { ...options, chromaKey, maxDimension: options.maxDimension ?? 320 });
+  }
+}
@@ -0,0 +1,35 @@
+import { OnnxSegmenter } from '../utils/onnxSegmenter';
+import { applyMask, loadImageData } from '../utils/imageData';
+import type { SegmentationModel } from '../utils/segmentationModels';
+import type { BackgroundRemover, RemovalResult, RemoveOptions } from './types';
+
+// Neural matting model executed on-device; images never leave the browser
+export class OnnxModelProvider implements BackgroundRemover {
+  readonly id: string;
+  readonly name: string;
+  readonly description = 'On-device neural network (ONNX, WASM), no upload or API key';
+  readonly capabilities = {
+    offline: true,
+    requiresApiKey: false,
+    softAlpha: true,
+  };
+
+  private segmenter: OnnxSegmenter;
+
+  constructor(model: SegmentationModel) {
+    this.id = `onnx-${model.id}`;
+    this.name = `On-device ${model.name}`;
+    this.segmenter = new OnnxSegmenter(model);
+  }
+
+  async remove(file: File, options: RemoveOptions = {}): Promise<RemovalResult> {
+    const source = await loadImageData(file);
+    const mask = await this.segmenter.segment(source, {
+      signal: options.signal,
+      onProgress: (stage) => options.onProgress?.(
+        stage === 'loading-model' ? 'Loading on-device model...' : 'Running neural network...'
+      ),
+    });
+    return { mask, image: applyMask(source, mask) };
+  }
+}
@@ -0,0 +1,68 @@
+import { DEFAULT_SEGMENT_OPTIONS, PhotoroomAPI, SegmentOptions } from '../utils/photoroomAPI';
+import { AlphaMask, applyMask, extractAlpha, loadImageData } from '../utils/imageData';
+import type { BackgroundRemover, ProviderCapabilities, RemovalResult, RemoveOptions } from './types';
+
+// Grayscale matte from channels=alpha
+function maskFromLuminance(image: ImageData): AlphaMask {
+  const data = new Uint8ClampedArray(image.width * image.height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = image.data[i * 4];
+  }
+  return { width: image.width, height: image.height, data };
+}
+
+export class PhotoroomProvider implements BackgroundRemover {
+  readonly id = 'photoroom';
+  readonly name = 'Photoroom AI';
+  readonly description = 'Professional cloud segmentation by Photoroom';
+  readonly capabilities: ProviderCapabilities;
+
+  private api: PhotoroomAPI;
+  private segmentOptions: SegmentOptions = DEFAULT_SEGMENT_OPTIONS;
+
+  constructor(api: PhotoroomAPI) {
+    this.api = api;
+    this.capabilities = {
+      offline: false,
+      requiresApiKey: !api.isProxied(),
+      softAlpha: true,
+    };
+  }
+
+  getSegmentOptions(): SegmentOptions {
+    return this.segmentOptions;
+  }
+
+  setSegmentOptions(options: SegmentOptions) {
+    this.segmentOptions = options;
+  }
+
+  // Each call costs credits, so repeat requests are worth caching
+  cacheKey(): string {
+    return JSON.stringify(this.segmentOptions);
+  }
+
+  async remove(file: File, options: RemoveOptions = {}): Promise<RemovalResult> {
+    // A cropped matte can't be lined up with the original again, so alpha mode never crops
+    const segment = this.segmentOptions.channels === 'alpha'
+      ? { ...this.segmentOptions, crop: false }
+      : this.segmentOptions;
+    const blob = await this.api.removeBackgroundToBlob(file, segment, {
+      signal: options.signal,
+      onRetry: ({ attempt, delayMs, error }) => {
+        options.onProgress?.(`Photoroom request failed (${error.kind}), retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1})...`);
+      },
+    });
+    const output = { blob, extension: segment.format };
+    const decoded = await loadImageData(blob);
+
+    if (segment.channels === 'alpha') {
+      // Matte only: cut the original out ourselves, at the matte's size
+      const mask = maskFromLuminance(decoded);
+      const source = await loadImageData(file, mask.width, mask.height);
+      return { mask, image: applyMask(source, mask), output, cropped: segment.crop };
+    }
+    // JPG output or a background color leave no transparency; the mask is then fully opaque
+    return { mask: extractAlpha(decoded), image: decoded, output, cropped: segment.crop };
+  }
+}
@@ -0,0 +1,32 @@
+import type { BackgroundRemover } from './types';
+
+export class ProviderRegistry {
+  private providers = new Map<string, BackgroundRemover>();
+
+  register(provider: BackgroundRemover) {
+    if (this.providers.has(provider.id)) {
+      throw new Error(`Provider "${provider.id}" is already registered`);
+    }
+    this.providers.set(provider.id, provider);
+  }
+
+  unregister(id: string) {
+    this.providers.delete(id);
+  }
+
+  has(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  get(id: string): BackgroundRemover {
+    const provider = this.providers.get(id);
+    if (!provider) {
+      throw new Error(`Unknown background removal provider "${id}"`);
+    }
+    return provider;
+  }
+
+  list(): BackgroundRemover[] {
+    return Array.from(this.providers.values());
+  }
+}
@@ -0,0 +1,42 @@
+import type { AlphaMask, RasterImage } from '../utils/imageData';
+
+export interface ProviderCapabilities {
+  // Runs entirely on the device, without network access
+  offline: boolean;
+  requiresApiKey: boolean;
+  // Produces continuous alpha rather than a hard 0/255 cutout
+  softAlpha: boolean;
+  // Longest image side the provider accepts, if limited
+  maxDimension?: number;
+}
+
+export interface RemoveOptions {
+  signal?: AbortSignal;
+  // Human-readable description of the current processing stage
+  onProgress?: (message: string) => void;
+}
+
+export interface RemovalResult {
+  mask: AlphaMask;
+  // Original RGB composited with the mask
+  image: RasterImage;
+  // Encoded file as the provider delivered it, ready to download without re-rendering
+  output?: { blob: Blob; extension: string };
+  // The result no longer lines up pixel-for-pixel with the uploaded image
+  cropped?: boolean;
+  // RGB already has the old background's tint removed, so edge cleanup leaves it alone
+  despilled?: boolean;
+  // Served from the local result cache instead of running the provider
+  cached?: boolean;
+}
+
+// Common contract for every background removal engine
+export interface BackgroundRemover {
+  id: string;
+  name: string;
+  description: string;
+  capabilities: ProviderCapabilities;
+  remove(file: File, options?: RemoveOptions): Promise<RemovalResult>;
+  // Identifies the current options; only providers that implement it have their results cached
+  cacheKey?(): string;
+}
@@ -0,0 +1,163 @@
+// Splits short videos and animated images into RGBA frames.
+// Animated GIF, PNG and WebP go through ImageDecoder (WebCodecs), which reports
+// each frame's own duration. Videos are demuxed by mediabunny (MP4, MOV, WebM,
+// MKV) and decoded with VideoDecoder, sampled at a fixed rate in one pass.
+import type { AnimationFrame } from './animationEncoders';
+import type { RasterImage } from './imageData';
+
+export interface DecodeAnimationOptions {
+  // Frames beyond this are dropped and `truncated` is set
+  maxFrames: number;
+  // Sampling rate for videos; animated images keep their own timing
+  fps: number;
+  // Longer side limit in pixels
+  maxDimension: number;
+  signal?: AbortSignal;
+  onProgress?: (decoded: number, total: number) => void;
+}
+
+export const DEFAULT_DECODE_ANIMATION_OPTIONS: Omit<DecodeAnimationOptions, 'signal' | 'onProgress'> = {
+  maxFrames: 120,
+  fps: 12,
+  maxDimension: 720,
+};
+
+export interface DecodedAnimation {
+  frames: AnimationFrame[];
+  width: number;
+  height: number;
+  truncated: boolean;
+}
+
+const ANIMATED_IMAGE_TYPES: Record<string, string> = {
+  gif: 'image/gif',
+  png: 'image/png',
+  // ImageDecoder knows APNG as image/png
+  apng: 'image/png',
+  webp: 'image/webp',
+};
+
+// Some decoders report 0 for "as fast as possible"; browsers play those at 100 ms
+const MIN_FRAME_DURATION = 20;
+const DEFAULT_FRAME_DURATION = 100;
+
+export const ANIMATION_ACCEPT = ['video/*', '.gif', '.png', '.apng', '.webp'].join(',');
+
+function cancelledError() {
+  return new DOMException('Decoding cancelled', 'AbortError');
+}
+
+export function isVideoFile(file: File): boolean {
+  return file.type.startsWith('video/');
+}
+
+function imageTypeOf(file: File): string | null {
+  const byType = Object.keys(ANIMATED_IMAGE_TYPES).find(extension => file.type === `image/${extension}`);
+  const extension = byType ?? file.name.split('.').pop()?.toLowerCase() ?? '';
+  return ANIMATED_IMAGE_TYPES[extension] ?? null;
+}
+
+function fitSize(width: number, height: number, maxDimension: number): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+function createFrameCanvas(width: number, height: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  return {
+    capture(source: CanvasImageSource): RasterImage {
+      ctx.clearRect(0, 0, width, height);
+      ctx.drawImage(source, 0, 0, width, height);
+      return ctx.getImageData(0, 0, width, height);
+    },
+  };
+}
+
+async function decodeAnimatedImage(file: File, type: string, options: DecodeAnimationOptions): Promise<DecodedAnimation> {
+  if (typeof ImageDecoder === 'undefined' || !(await ImageDecoder.isTypeSupported(type))) {
+    throw new Error('This browser cannot decode animated images frame by frame. Try a recent Chrome or Edge.');
+  }
+
+  const decoder = new ImageDecoder({ type, data: await file.arrayBuffer(), preferAnimation: true });
+  try {
+    await decoder.tracks.ready;
+    const track = decoder.tracks.selectedTrack;
+    if (!track) throw new Error('The file contains no image.');
+    // GIFs may still be counting frames until the whole file is parsed
+    await decoder.completed;
+
+    const total = Math.min(track.frameCount, options.maxFrames);
+    const frames: AnimationFrame[] = [];
+    let canvas: ReturnType<typeof createFrameCanvas> | null = null;
+    let size = { width: 0, height: 0 };
+
+    for (let index = 0; index < total; index++) {
+      if (options.signal?.aborted) throw cancelledError();
+      const { image } = await decoder.decode({ frameIndex: index });
+      try {
+        if (!canvas) {
+          size = fitSize(image.displayWidth, image.displayHeight, options.maxDimension);
+          canvas = createFrameCanvas(size.width, size.height);
+        }
+        const duration = image.duration ? image.duration / 1000 : DEFAULT_FRAME_DURATION;
+        frames.push({ image: canvas.capture(image), duration: Math.max(MIN_FRAME_DURATION, duration) });
+      } finally {
+        image.close();
+      }
+      options.onProgress?.(index + 1, total);
+    }
+    return { frames, ...size, truncated: track.frameCount > total };
+  } finally {
+    decoder.close();
+  }
+}
+
+async function decodeVideo(file: File, options: DecodeAnimationOptions): Promise<DecodedAnimation> {
+  if (typeof VideoDecoder === 'undefined') {
+    throw new Error('This browser cannot decode video frame by frame. Try a recent Chrome, Edge or Safari.');
+  }
+
+  // The demuxers roughly double the app bundle, so they load on first use
+  const { ALL_FORMATS, BlobSource, CanvasSink, Input } = await import('mediabunny');
+  const input = new Input({ formats: ALL_FORMATS, source: new BlobSource(file) });
+  try {
+    const track = await input.getPrimaryVideoTrack().catch(() => null);
+    if (!track) throw new Error('No video track found. Try MP4, MOV, WebM or MKV.');
+    if (!(await track.canDecode())) throw new Error(`This browser cannot decode ${track.codec ?? 'this'} video. Try H.264 or VP9.`);
+
+    // Computed from the packets, so files without a duration in their header work too
+    const start = await track.getFirstTimestamp();
+    const end = await track.computeDuration();
+    const interval = 1 / options.fps;
+    const available = Math.max(1, Math.floor((end - start) / interval));
+    const total = Math.min(available, options.maxFrames);
+    const size = fitSize(track.displayWidth, track.displayHeight, options.maxDimension);
+    const canvas = createFrameCanvas(size.width, size.height);
+    // Also applies the rotation stored in the file, e.g. for portrait phone videos
+    const sink = new CanvasSink(track, { ...size, fit: 'fill', poolSize: 2 });
+    const timestamps = Array.from({ length: total }, (_, index) => start + index * interval);
+    const frames: AnimationFrame[] = [];
+
+    for await (const wrapped of sink.canvasesAtTimestamps(timestamps)) {
+      if (options.signal?.aborted) throw cancelledError();
+      // Null only before the first frame, which the timestamps never are
+      if (!wrapped) continue;
+      frames.push({ image: canvas.capture(wrapped.canvas), duration: interval * 1000 });
+      options.onProgress?.(frames.length, total);
+    }
+    if (frames.length === 0) throw new Error('The video contains no frames that can be decoded.');
+    return { frames, ...size, truncated: available > total };
+  } finally {
+    input.dispose();
+  }
+}
+
+export async function decodeAnimation(file: File, options: DecodeAnimationOptions): Promise<DecodedAnimation> {
+  if (isVideoFile(file)) return decodeVideo(file, options);
+  const type = imageTypeOf(file);
+  if (!type) throw new Error('Choose a video, an animated GIF, an animated PNG or an animated WebP.');
+  return decodeAnimatedImage(file, type, options);
+}
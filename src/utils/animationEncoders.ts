@@ -0,0 +1,302 @@
+// Writes processed frames as WebM (VP9 with alpha), animated PNG, animated WebP or a ZIP of PNGs.
+// Browsers only encode still images, so the animated containers are assembled here.
+import { ArrayBufferTarget, Muxer } from 'webm-muxer';
+import { crc32 } from './crc32';
+import { canvasToBlob } from './download';
+import { isFormatSupported } from './exporter';
+import { rasterToCanvas, RasterImage } from './imageData';
+import { createZip } from './zip';
+
+export interface AnimationFrame {
+  image: RasterImage;
+  // Display time in milliseconds
+  duration: number;
+}
+
+export type AnimationFormat = 'webm' | 'apng' | 'webp' | 'png-zip';
+
+export const ANIMATION_FORMATS: Record<AnimationFormat, { label: string; extension: string }> = {
+  webm: { label: 'WebM video (with alpha)', extension: 'webm' },
+  apng: { label: 'Animated PNG', extension: 'png' },
+  webp: { label: 'Animated WebP', extension: 'webp' },
+  'png-zip': { label: 'PNG sequence (ZIP)', extension: 'zip' },
+};
+
+export interface EncodeAnimationOptions {
+  // Base name for the ZIP entries
+  name: string;
+  signal?: AbortSignal;
+  onProgress?: (encoded: number, total: number) => void;
+}
+
+const VP9_CODEC = 'vp09.00.10.08';
+const WEBP_QUALITY = 0.9;
+const KEYFRAME_INTERVAL = 60;
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+function cancelledError() {
+  return new DOMException('Encoding cancelled', 'AbortError');
+}
+
+export async function isAnimationFormatSupported(format: AnimationFormat): Promise<boolean> {
+  switch (format) {
+    case 'webm': {
+      if (typeof VideoEncoder === 'undefined') return false;
+      const { supported } = await VideoEncoder.isConfigSupported({ codec: VP9_CODEC, width: 64, height: 64, alpha: 'keep' })
+        .catch(() => ({ supported: false }));
+      return !!supported;
+    }
+    case 'webp':
+      return isFormatSupported('webp');
+    case 'apng':
+    case 'png-zip':
+      return typeof CompressionStream !== 'undefined';
+  }
+}
+
+// --- PNG ---
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// 8-bit RGBA scanlines with the Sub filter, zlib-compressed
+async function pngImageData(image: RasterImage): Promise<Uint8Array> {
+  const { width, height, data } = image;
+  const stride = width * 4;
+  const filtered = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (stride + 1);
+    filtered[row] = 1;
+    for (let x = 0; x < stride; x++) {
+      const value = data[y * stride + x];
+      filtered[row + 1 + x] = x < 4 ? value : value - data[y * stride + x - 4];
+    }
+  }
+  return deflate(filtered);
+}
+
+function ihdr(width: number, height: number): Uint8Array {
+  const data = new Uint8Array(13);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  // 8-bit RGBA, deflate, adaptive filtering, no interlace
+  data.set([8, 6, 0, 0, 0], 8);
+  return chunk('IHDR', data);
+}
+
+export async function encodePng(image: RasterImage): Promise<Uint8Array> {
+  return concat([
+    new Uint8Array(PNG_SIGNATURE),
+    ihdr(image.width, image.height),
+    chunk('IDAT', await pngImageData(image)),
+    chunk('IEND', new Uint8Array(0)),
+  ]);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    out.set(part, offset);
+    offset += part.length;
+  });
+  return out;
+}
+
+async function encodeApng(frames: AnimationFrame[], options: EncodeAnimationOptions): Promise<Blob> {
+  const { width, height } = frames[0].image;
+  const actl = new Uint8Array(8);
+  new DataView(actl.buffer).setUint32(0, frames.length);
+  const parts = [new Uint8Array(PNG_SIGNATURE), ihdr(width, height), chunk('acTL', actl)];
+
+  let sequence = 0;
+  for (let i = 0; i < frames.length; i++) {
+    if (options.signal?.aborted) throw cancelledError();
+    const frame = frames[i];
+    const fctl = new Uint8Array(26);
+    const view = new DataView(fctl.buffer);
+    view.setUint32(0, sequence++);
+    view.setUint32(4, width);
+    view.setUint32(8, height);
+    view.setUint16(20, Math.round(frame.duration));
+    view.setUint16(22, 1000);
+    // Clear to transparent before the next frame, and replace rather than blend
+    fctl[24] = 1;
+    fctl[25] = 0;
+    parts.push(chunk('fcTL', fctl));
+
+    const data = await pngImageData(frame.image);
+    if (i === 0) {
+      parts.push(chunk('IDAT', data));
+    } else {
+      const fdat = new Uint8Array(4 + data.length);
+      new DataView(fdat.buffer).setUint32(0, sequence++);
+      fdat.set(data, 4);
+      parts.push(chunk('fdAT', fdat));
+    }
+    options.onProgress?.(i + 1, frames.length);
+  }
+  parts.push(chunk('IEND', new Uint8Array(0)));
+  return new Blob(parts, { type: 'image/apng' });
+}
+
+// --- WebP ---
+
+function riffChunk(type: string, data: Uint8Array): Uint8Array {
+  const padded = data.length + (data.length & 1);
+  const out = new Uint8Array(8 + padded);
+  for (let i = 0; i < 4; i++) out[i] = type.charCodeAt(i);
+  new DataView(out.buffer).setUint32(4, data.length, true);
+  out.set(data, 8);
+  return out;
+}
+
+function setUint24(view: DataView, offset: number, value: number) {
+  view.setUint8(offset, value & 0xff);
+  view.setUint8(offset + 1, (value >> 8) & 0xff);
+  view.setUint8(offset + 2, (value >> 16) & 0xff);
+}
+
+// The ALPH/VP8/VP8L chunks of a still WebP, i.e. everything an ANMF frame needs
+function webpFrameChunks(file: Uint8Array): Uint8Array {
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const parts: Uint8Array[] = [];
+  for (let offset = 12; offset + 8 <= file.length;) {
+    const type = String.fromCharCode(...file.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size & 1);
+    if (type === 'ALPH' || type === 'VP8 ' || type === 'VP8L') parts.push(file.subarray(offset, Math.min(end, file.length)));
+    offset = end;
+  }
+  return concat(parts);
+}
+
+async function encodeAnimatedWebp(frames: AnimationFrame[], options: EncodeAnimationOptions): Promise<Blob> {
+  const { width, height } = frames[0].image;
+
+  const vp8x = new Uint8Array(10);
+  const vp8xView = new DataView(vp8x.buffer);
+  // Animation and alpha flags
+  vp8x[0] = 0x02 | 0x10;
+  setUint24(vp8xView, 4, width - 1);
+  setUint24(vp8xView, 7, height - 1);
+
+  // Transparent background, loop forever
+  const anim = new Uint8Array(6);
+
+  const parts = [riffChunk('VP8X', vp8x), riffChunk('ANIM', anim)];
+  for (let i = 0; i < frames.length; i++) {
+    if (options.signal?.aborted) throw cancelledError();
+    const frame = frames[i];
+    const blob = await canvasToBlob(rasterToCanvas(frame.image), 'image/webp', WEBP_QUALITY);
+    const data = webpFrameChunks(new Uint8Array(await blob.arrayBuffer()));
+
+    const header = new Uint8Array(16);
+    const view = new DataView(header.buffer);
+    setUint24(view, 6, width - 1);
+    setUint24(view, 9, height - 1);
+    setUint24(view, 12, Math.round(frame.duration));
+    // Don't blend with the previous frame, dispose to background afterwards
+    header[15] = 0x02 | 0x01;
+    parts.push(riffChunk('ANMF', concat([header, data])));
+    options.onProgress?.(i + 1, frames.length);
+  }
+
+  const body = concat(parts);
+  const riff = new Uint8Array(12);
+  riff.set([82, 73, 70, 70], 0);
+  new DataView(riff.buffer).setUint32(4, 4 + body.length, true);
+  riff.set([87, 69, 66, 80], 8);
+  return new Blob([riff, body], { type: 'image/webp' });
+}
+
+// --- WebM ---
+
+async function encodeWebm(frames: AnimationFrame[], options: EncodeAnimationOptions): Promise<Blob> {
+  // 4:2:0 video needs even dimensions
+  const width = frames[0].image.width & ~1;
+  const height = frames[0].image.height & ~1;
+  const averageDuration = frames.reduce((sum, frame) => sum + frame.duration, 0) / frames.length;
+
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: { codec: 'V_VP9', width, height, frameRate: 1000 / averageDuration, alpha: true },
+  });
+  let encodeError: unknown = null;
+  const encoder = new VideoEncoder({
+    output: (encoded, meta) => muxer.addVideoChunk(encoded, meta),
+    error: (error) => {
+      encodeError = error;
+    },
+  });
+  encoder.configure({ codec: VP9_CODEC, width, height, alpha: 'keep', bitrate: 4_000_000 });
+
+  let timestamp = 0;
+  try {
+    for (let i = 0; i < frames.length; i++) {
+      if (options.signal?.aborted) throw cancelledError();
+      if (encodeError) throw encodeError;
+      const frame = frames[i];
+      const duration = Math.round(frame.duration * 1000);
+      const videoFrame = new VideoFrame(rasterToCanvas(frame.image), {
+        timestamp,
+        duration,
+        visibleRect: { x: 0, y: 0, width, height },
+        alpha: 'keep',
+      });
+      encoder.encode(videoFrame, { keyFrame: i % KEYFRAME_INTERVAL === 0 });
+      videoFrame.close();
+      timestamp += duration;
+      // Don't queue up more frames than the encoder can take
+      if (encoder.encodeQueueSize > 4) await new Promise(resolve => encoder.addEventListener('dequeue', resolve, { once: true }));
+      options.onProgress?.(i + 1, frames.length);
+    }
+    await encoder.flush();
+    if (encodeError) throw encodeError;
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+
+  muxer.finalize();
+  return new Blob([muxer.target.buffer], { type: 'video/webm' });
+}
+
+// --- ZIP ---
+
+async function encodePngZip(frames: AnimationFrame[], options: EncodeAnimationOptions): Promise<Blob> {
+  const digits = Math.max(4, String(frames.length).length);
+  const entries = [];
+  for (let i = 0; i < frames.length; i++) {
+    if (options.signal?.aborted) throw cancelledError();
+    entries.push({ name: `${options.name}-${String(i + 1).padStart(digits, '0')}.png`, data: await encodePng(frames[i].image) });
+    options.onProgress?.(i + 1, frames.length);
+  }
+  return createZip(entries);
+}
+
+export function encodeAnimation(frames: AnimationFrame[], format: AnimationFormat, options: EncodeAnimationOptions): Promise<Blob> {
+  if (frames.length === 0) throw new Error('There are no frames to encode.');
+  switch (format) {
+    case 'webm':
+      return encodeWebm(frames, options);
+    case 'apng':
+      return encodeApng(frames, options);
+    case 'webp':
+      return encodeAnimatedWebp(frames, options);
+    case 'png-zip':
+      return encodePngZip(frames, options);
+  }
+}
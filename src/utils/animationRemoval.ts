@@ -0,0 +1,54 @@
+// Runs every frame of an animation through a background remover, then smooths
+// the mattes over time so that edges don't flicker from frame to frame
+import type { BackgroundRemover, RemovalResult } from '../providers';
+import type { AnimationFrame } from './animationEncoders';
+import { DEFAULT_GUIDED_UPSAMPLE_OPTIONS, guidedUpsample } from './guidedUpsample';
+import { AlphaMask, applyMask, loadImageData, RasterImage, rasterToBlob } from './imageData';
+import { DEFAULT_TEMPORAL_SMOOTHING, MaskSmoother, TemporalSmoothingOptions } from './temporalSmoothing';
+
+export interface AnimationRemovalOptions {
+  smoothing?: TemporalSmoothingOptions;
+  signal?: AbortSignal;
+  onFrame?: (processed: number, total: number, preview: AnimationFrame) => void;
+}
+
+function frameMask(mask: AlphaMask, frame: AnimationFrame): AlphaMask {
+  const { width, height } = frame.image;
+  if (mask.width === width && mask.height === height) return mask;
+  // Smaller on one axis and equal on the other is a rounding difference, not a crop
+  if (mask.width <= width && mask.height <= height) return guidedUpsample(mask, frame.image, DEFAULT_GUIDED_UPSAMPLE_OPTIONS);
+  throw new Error(`The provider returned a ${mask.width}×${mask.height} matte for a ${width}×${height} frame.`);
+}
+
+// Despilled results carry corrected colors that the raw frame lacks
+async function frameColors(result: RemovalResult, frame: AnimationFrame): Promise<RasterImage> {
+  if (!result.despilled) return frame.image;
+  const { width, height } = frame.image;
+  if (result.image.width === width && result.image.height === height) return result.image;
+  return loadImageData(await rasterToBlob(result.image), width, height);
+}
+
+export async function removeAnimationBackground(
+  remover: BackgroundRemover,
+  frames: AnimationFrame[],
+  options: AnimationRemovalOptions = {}
+): Promise<AnimationFrame[]> {
+  const smoother = new MaskSmoother(options.smoothing ?? DEFAULT_TEMPORAL_SMOOTHING);
+  const processed: AnimationFrame[] = [];
+
+  for (let index = 0; index < frames.length; index++) {
+    if (options.signal?.aborted) throw new DOMException('Processing cancelled', 'AbortError');
+    const frame = frames[index];
+    const blob = await rasterToBlob(frame.image);
+    const file = new File([blob], `frame-${index + 1}.png`, { type: 'image/png' });
+    const result = await remover.remove(file, { signal: options.signal });
+    // Every frame has to stay aligned with the others
+    if (result.cropped) throw new Error('This provider crops its results, which cannot be combined into an animation. Turn cropping off.');
+
+    const mask = smoother.smooth(frameMask(result.mask, frame), frame.image);
+    const output = { image: applyMask(await frameColors(result, frame), mask), duration: frame.duration };
+    processed.push(output);
+    options.onFrame?.(index + 1, frames.length, output);
+  }
+  return processed;
+}
@@ -0,0 +1,115 @@
+// Keeps the Photoroom API key in localStorage, optionally encrypted with a passphrase
+// (PBKDF2-derived AES-GCM key, so the stored value is useless without it).
+
+const STORAGE_KEY = 'removebg.photoroomApiKey';
+const PBKDF2_ITERATIONS = 250_000;
+
+type StoredApiKey =
+  | { encrypted: false; key: string }
+  | { encrypted: true; salt: string; iv: string; data: string };
+
+export type ApiKeySource = 'stored' | 'env' | 'locked' | 'none';
+
+// Build-time default, used until the user saves their own key
+export function getDefaultApiKey(): string {
+  return import.meta.env.VITE_PHOTOROOM_API_KEY ?? '';
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export class ApiKeyStore {
+  private storage: Storage;
+
+  constructor(storage: Storage = localStorage) {
+    this.storage = storage;
+  }
+
+  private read(): StoredApiKey | null {
+    const raw = this.storage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw) as StoredApiKey;
+    } catch {
+      return null;
+    }
+  }
+
+  hasStoredKey(): boolean {
+    return this.read() !== null;
+  }
+
+  isEncrypted(): boolean {
+    return this.read()?.encrypted === true;
+  }
+
+  // Plain stored key; null when nothing is stored or the key is encrypted
+  load(): string | null {
+    const stored = this.read();
+    return stored && !stored.encrypted ? stored.key : null;
+  }
+
+  async unlock(passphrase: string): Promise<string> {
+    const stored = this.read();
+    if (!stored) throw new Error('No API key is saved');
+    if (!stored.encrypted) return stored.key;
+
+    try {
+      const key = await deriveKey(passphrase, fromBase64(stored.salt));
+      const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(stored.iv) }, key, fromBase64(stored.data));
+      return new TextDecoder().decode(plain);
+    } catch {
+      throw new Error('Wrong passphrase');
+    }
+  }
+
+  async save(apiKey: string, passphrase?: string): Promise<void> {
+    if (!passphrase) {
+      this.write({ encrypted: false, key: apiKey });
+      return;
+    }
+
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await deriveKey(passphrase, salt);
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(apiKey));
+    this.write({ encrypted: true, salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) });
+  }
+
+  clear() {
+    this.storage.removeItem(STORAGE_KEY);
+  }
+
+  private write(value: StoredApiKey) {
+    this.storage.setItem(STORAGE_KEY, JSON.stringify(value));
+  }
+}
+
+// Key to start with: a saved plain key wins over the build default
+export function resolveApiKey(store: ApiKeyStore): { key: string; source: ApiKeySource } {
+  const stored = store.load();
+  if (stored) return { key: stored, source: 'stored' };
+  const fallback = getDefaultApiKey();
+  if (store.isEncrypted()) return { key: fallback, source: 'locked' };
+  return fallback ? { key: fallback, source: 'env' } : { key: '', source: 'none' };
+}
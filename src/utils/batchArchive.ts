@@ -0,0 +1,139 @@
+// ZIP import and export for batch jobs. Entries are unpacked and written one at
+// a time, and exports stream straight to disk where the browser allows it.
+import { downloadBlob } from './download';
+import type { ExportFile, ExportFormat } from './exporter';
+import { imageTypeForName, isImageFile } from './preprocess';
+import { createBlobSink, readZip, ZipWriter } from './zip';
+
+export const ZIP_ACCEPT = '.zip,application/zip,application/x-zip-compressed';
+
+const MANIFEST_NAME = 'manifest.json';
+
+export function isZipFile(file: File): boolean {
+  return ['application/zip', 'application/x-zip-compressed'].includes(file.type) || /\.zip$/i.test(file.name);
+}
+
+export interface UnpackResult {
+  files: File[];
+  // Entries that aren't images
+  skipped: number;
+  // Images left out because of the limit
+  truncated: number;
+}
+
+// macOS resource forks and other hidden files
+function isHidden(path: string): boolean {
+  return path.split('/').some(segment => segment.startsWith('.') || segment === '__MACOSX');
+}
+
+export async function unpackImages(archive: File, limit: number): Promise<UnpackResult> {
+  const result: UnpackResult = { files: [], skipped: 0, truncated: 0 };
+  for (const entry of await readZip(archive)) {
+    if (entry.directory || isHidden(entry.name)) continue;
+    const name = entry.name.split('/').pop()!;
+    const type = imageTypeForName(name);
+    if (!type.startsWith('image/')) {
+      result.skipped++;
+      continue;
+    }
+    if (result.files.length >= limit) {
+      result.truncated++;
+      continue;
+    }
+    const file = new File([await entry.blob()], name, { type, lastModified: entry.lastModified.getTime() });
+    if (isImageFile(file)) result.files.push(file);
+  }
+  return result;
+}
+
+export interface ArchiveItem {
+  // Original file name
+  filename: string;
+  status: string;
+  error?: string;
+  // Fill behind the cutout, for formats without transparency
+  backgroundColor?: string;
+  // Encodes the item's output files; absent when there is no result
+  render?: () => Promise<ExportFile[]>;
+}
+
+interface ManifestEntry {
+  source: string;
+  status: string;
+  outputs: string[];
+  backgroundColor?: string;
+  error?: string;
+}
+
+export interface ExportArchiveOptions {
+  // Archive file name
+  filename: string;
+  format: ExportFormat;
+  provider: string;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// photo.jpg and photo.png would both become photo.png
+function uniqueName(name: string, used: Set<string>): string {
+  let candidate = name;
+  const dot = name.lastIndexOf('.');
+  const [stem, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = `${stem}-${n}${extension}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+// Where the archive goes: a file the user picks (streamed to disk), or a download
+async function openTarget(filename: string): Promise<{ stream: WritableStream<Uint8Array>; finish: () => void }> {
+  if (window.showSaveFilePicker) {
+    const handle = await window.showSaveFilePicker({
+      suggestedName: filename,
+      types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }],
+    });
+    return { stream: await handle.createWritable(), finish: () => {} };
+  }
+  const sink = createBlobSink();
+  return { stream: sink.stream, finish: () => downloadBlob(sink.result(), filename) };
+}
+
+// Resolves once the archive is written; rejects with an AbortError if the user
+// dismisses the save dialog
+export async function exportArchive(items: ArchiveItem[], options: ExportArchiveOptions): Promise<void> {
+  const target = await openTarget(options.filename);
+  const zip = new ZipWriter(target.stream);
+  const used = new Set([MANIFEST_NAME]);
+  const manifest: ManifestEntry[] = [];
+
+  try {
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i];
+      const entry: ManifestEntry = { source: item.filename, status: item.status, outputs: [] };
+      if (item.render) {
+        for (const file of await item.render()) {
+          const name = uniqueName(file.filename, used);
+          await zip.add(name, file.blob);
+          entry.outputs.push(name);
+        }
+        if (item.backgroundColor) entry.backgroundColor = item.backgroundColor;
+      }
+      if (item.error) entry.error = item.error;
+      manifest.push(entry);
+      options.onProgress?.(i + 1, items.length);
+    }
+
+    const json = JSON.stringify({
+      createdAt: new Date().toISOString(),
+      provider: options.provider,
+      format: options.format,
+      files: manifest,
+    }, null, 2);
+    await zip.add(MANIFEST_NAME, new TextEncoder().encode(json + '\n'));
+    await zip.close();
+  } catch (error) {
+    await zip.abort(error).catch(() => {});
+    throw error;
+  }
+  target.finish();
+}
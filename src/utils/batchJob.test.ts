@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BatchJob, BatchProcessor } from './batchJob';
+
+function file(name: string): File {
+  return new File([name], name, { type: 'image/png' });
+}
+
+// Lets each call finish when the test says so
+function controlledProcessor() {
+  const pending = new Map<string, { resolve: (value: string) => void; reject: (error: Error) => void }>();
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const processor: BatchProcessor = (input, signal) => new Promise((resolve, reject) => {
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    const settle = () => {
+      inFlight--;
+      pending.delete(input.name);
+    };
+    pending.set(input.name, {
+      resolve: (value) => { settle(); resolve(value); },
+      reject: (error) => { settle(); reject(error); },
+    });
+    signal.addEventListener('abort', () => {
+      settle();
+      reject(new DOMException('Aborted', 'AbortError'));
+    });
+  });
+  return {
+    processor,
+    pending,
+    maxInFlight: () => maxInFlight,
+  };
+}
+
+// Let the workers pick up newly freed slots
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('BatchJob', () => {
+  it('never runs more than `concurrency` items at once', async () => {
+    const control = controlledProcessor();
+    const job = new BatchJob(control.processor, { concurrency: 2 });
+    job.add(['a', 'b', 'c', 'd', 'e'].map(file));
+    const done = job.start();
+
+    while (control.pending.size > 0) {
+      await flush();
+      expect(control.pending.size).toBeLessThanOrEqual(2);
+      const [name, call] = control.pending.entries().next().value!;
+      call.resolve(`result-${name}`);
+      await flush();
+    }
+    await done;
+    expect(control.maxInFlight()).toBe(2);
+    expect(job.getProgress()).toMatchObject({ total: 5, done: 5 });
+  });
+
+  it('keeps results in the order the files were added', async () => {
+    const control = controlledProcessor();
+    const job = new BatchJob(control.processor, { concurrency: 3 });
+    job.add(['a', 'b', 'c'].map(file));
+    const done = job.start();
+    await flush();
+
+    // Finish in reverse order
+    for (const name of ['c', 'b', 'a']) control.pending.get(name)!.resolve(`result-${name}`);
+    await done;
+    expect(job.getItems().map(item => [item.file.name, item.result])).toEqual([
+      ['a', 'result-a'],
+      ['b', 'result-b'],
+      ['c', 'result-c'],
+    ]);
+  });
+
+  it('retries only failed items and counts the attempts', async () => {
+    const processor = vi.fn<BatchProcessor>()
+      .mockResolvedValueOnce('ok-a')
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockResolvedValueOnce('ok-b');
+    const job = new BatchJob(processor, { concurrency: 1 });
+    job.add(['a', 'b'].map(file));
+
+    await job.start();
+    expect(job.getItems().map(item => item.status)).toEqual(['done', 'failed']);
+    expect(job.getItems()[1].error).toBe('boom');
+
+    await job.retryFailed();
+    const [a, b] = job.getItems();
+    expect(processor).toHaveBeenCalledTimes(3);
+    expect(a).toMatchObject({ status: 'done', attempts: 1, result: 'ok-a' });
+    expect(b).toMatchObject({ status: 'done', attempts: 2, result: 'ok-b', error: undefined });
+  });
+
+  it('stops picking up queued items after cancelAll', async () => {
+    const control = controlledProcessor();
+    const processor = vi.fn(control.processor);
+    const job = new BatchJob(processor, { concurrency: 1 });
+    job.add(['a', 'b', 'c'].map(file));
+    const done = job.start();
+    await flush();
+
+    job.cancelAll();
+    await done;
+    await flush();
+    expect(processor).toHaveBeenCalledTimes(1);
+    expect(job.getItems().map(item => item.status)).toEqual(['queued', 'queued', 'queued']);
+    expect(job.isRunning()).toBe(false);
+  });
+
+  it('discards the results of removed and cleared items', async () => {
+    const discarded: string[] = [];
+    const processor: BatchProcessor = async input => `result-${input.name}`;
+    const job = new BatchJob(processor, { concurrency: 2, onDiscard: result => discarded.push(result) });
+    const [a] = job.add(['a', 'b', 'c'].map(file));
+    await job.start();
+
+    job.remove(a.id);
+    expect(discarded).toEqual(['result-a']);
+    job.clear();
+    expect(discarded).toEqual(['result-a', 'result-b', 'result-c']);
+    expect(job.getItems()).toEqual([]);
+  });
+});
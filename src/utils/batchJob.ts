@@ -0,0 +1,197 @@
+// Batch job queue for background removal, independent of React
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface BatchJobItem {
+  id: string;
+  file: File;
+  status: BatchItemStatus;
+  result?: string;
+  error?: string;
+  attempts: number;
+}
+
+export interface BatchProgress {
+  total: number;
+  queued: number;
+  running: number;
+  done: number;
+  failed: number;
+}
+
+// Processes a single file and resolves to a displayable image URL
+export type BatchProcessor = (file: File, signal: AbortSignal) => Promise<string>;
+
+export type BatchListener = (items: BatchJobItem[], progress: BatchProgress) => void;
+
+export interface BatchJobOptions {
+  concurrency?: number;
+  // Called with results that are dropped (removed, cleared or finished after
+  // cancellation), e.g. to revoke object URLs
+  onDiscard?: (result: string) => void;
+}
+
+export class BatchJob {
+  private processor: BatchProcessor;
+  private concurrency: number;
+  private onDiscard?: (result: string) => void;
+  private items: BatchJobItem[] = [];
+  private listeners = new Set<BatchListener>();
+  private controllers = new Map<string, AbortController>();
+  private running = false;
+  private generation = 0;
+  private nextId = 0;
+
+  constructor(processor: BatchProcessor, options: BatchJobOptions = {}) {
+    this.processor = processor;
+    this.concurrency = Math.max(1, options.concurrency ?? 3);
+    this.onDiscard = options.onDiscard;
+  }
+
+  setProcessor(processor: BatchProcessor) {
+    this.processor = processor;
+  }
+
+  setConcurrency(concurrency: number) {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+  }
+
+  getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  getItems(): BatchJobItem[] {
+    return this.items.map(item => ({ ...item }));
+  }
+
+  getProgress(): BatchProgress {
+    const progress: BatchProgress = { total: this.items.length, queued: 0, running: 0, done: 0, failed: 0 };
+    this.items.forEach(item => {
+      progress[item.status]++;
+    });
+    return progress;
+  }
+
+  subscribe(listener: BatchListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getItems(), this.getProgress());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  add(files: File[]): BatchJobItem[] {
+    const added = files.map(file => ({
+      id: `batch_${Date.now()}_${this.nextId++}`,
+      file,
+      status: 'queued' as BatchItemStatus,
+      attempts: 0,
+    }));
+    this.items.push(...added);
+    this.emit();
+    return added.map(item => ({ ...item }));
+  }
+
+  remove(id: string) {
+    this.controllers.get(id)?.abort();
+    this.controllers.delete(id);
+    this.items.filter(item => item.id === id).forEach(item => this.discard(item.result));
+    this.items = this.items.filter(item => item.id !== id);
+    this.emit();
+  }
+
+  clear() {
+    this.cancelAll();
+    this.items.forEach(item => this.discard(item.result));
+    this.items = [];
+    this.emit();
+  }
+
+  // Process every queued item, keeping at most `concurrency` in flight
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    const generation = this.generation;
+    this.emit();
+
+    const workers = Array.from({ length: this.concurrency }, () => this.runWorker(generation));
+    await Promise.all(workers);
+
+    // A cancelled run may already have been superseded by a new one
+    if (generation !== this.generation) return;
+    this.running = false;
+    this.emit();
+  }
+
+  // Re-queue failed items and process them again
+  async retryFailed(): Promise<void> {
+    this.items.forEach(item => {
+      if (item.status === 'failed') {
+        item.status = 'queued';
+        item.error = undefined;
+      }
+    });
+    this.emit();
+    return this.start();
+  }
+
+  // Abort in-flight requests and return them to the queue
+  cancelAll() {
+    this.controllers.forEach(controller => controller.abort());
+    this.controllers.clear();
+    this.generation++;
+    this.items.forEach(item => {
+      if (item.status === 'running') {
+        item.status = 'queued';
+      }
+    });
+    this.running = false;
+    this.emit();
+  }
+
+  private async runWorker(generation: number): Promise<void> {
+    while (this.running && generation === this.generation) {
+      const item = this.items.find(candidate => candidate.status === 'queued');
+      if (!item) return;
+
+      const controller = new AbortController();
+      this.controllers.set(item.id, controller);
+      item.status = 'running';
+      item.attempts++;
+      this.emit();
+
+      try {
+        const result = await this.processor(item.file, controller.signal);
+        if (controller.signal.aborted) {
+          this.discard(result);
+          continue;
+        }
+        this.discard(item.result);
+        item.status = 'done';
+        item.result = result;
+      } catch (error) {
+        if (controller.signal.aborted) continue;
+        item.status = 'failed';
+        item.error = error instanceof Error ? error.message : String(error);
+      } finally {
+        if (this.controllers.get(item.id) === controller) {
+          this.controllers.delete(item.id);
+        }
+      }
+      this.emit();
+    }
+  }
+
+  private discard(result: string | undefined) {
+    if (result !== undefined) this.onDiscard?.(result);
+  }
+
+  private emit() {
+    const items = this.getItems();
+    const progress = this.getProgress();
+    this.listeners.forEach(listener => listener(items, progress));
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { chromaKeyMask, ChromaKeyOptions, DEFAULT_CHROMA_KEY_OPTIONS } from './chromaKey';
+import type { RasterImage } from './imageData';
+
+function pixels(colors: number[][]): RasterImage {
+  const data = new Uint8ClampedArray(colors.length * 4);
+  colors.forEach((color, i) => data.set([...color, 255], i * 4));
+  return { width: colors.length, height: 1, data };
+}
+
+const GREEN = [0, 177, 64];
+const RED = [220, 30, 30];
+
+describe('chromaKeyMask', () => {
+  for (const space of ['ycbcr', 'hsv'] as const) {
+    it(`keys out the screen and keeps other colors (${space})`, () => {
+      const options: ChromaKeyOptions = { ...DEFAULT_CHROMA_KEY_OPTIONS, space };
+      const mask = chromaKeyMask(pixels([GREEN, [10, 190, 70], RED]), options);
+      expect(Array.from(mask.data)).toEqual([0, 0, 255]);
+    });
+  }
+
+  it('ignores brightness in HSV, so shadows on the screen key out', () => {
+    const shadow = [0, 90, 33];
+    const options: ChromaKeyOptions = { ...DEFAULT_CHROMA_KEY_OPTIONS, space: 'hsv' };
+    expect(chromaKeyMask(pixels([shadow]), options).data[0]).toBe(0);
+  });
+
+  it('ramps alpha between tolerance and tolerance + softness', () => {
+    // A blend of screen and subject lands somewhere on the ramp
+    const mixed = GREEN.map((value, i) => Math.round((value + RED[i]) / 2));
+    const mask = chromaKeyMask(pixels([mixed]), { ...DEFAULT_CHROMA_KEY_OPTIONS, tolerance: 0.1, softness: 0.5 });
+    expect(mask.data[0]).toBeGreaterThan(0);
+    expect(mask.data[0]).toBeLessThan(255);
+  });
+
+  it('treats everything outside the garbage matte as background', () => {
+    const options: ChromaKeyOptions = {
+      ...DEFAULT_CHROMA_KEY_OPTIONS,
+      garbageMatte: { x: 0, y: 0, width: 0.5, height: 1 },
+    };
+    const mask = chromaKeyMask(pixels([RED, RED, RED, RED]), options);
+    expect(Array.from(mask.data)).toEqual([255, 255, 0, 0]);
+  });
+});
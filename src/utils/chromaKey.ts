@@ -0,0 +1,152 @@
+// Chroma keyer for green/blue screen shots. Distance to the key color is measured
+// in YCbCr's chroma plane, or on the HSV color wheel, which ignores brightness so
+// folds and shadows on the screen key out along with the lit parts. Alpha ramps
+// linearly between the tolerance and tolerance + softness instead of switching 0/255.
+// Pure typed-array code, like segmentationFilters.ts, so it runs in the worker.
+import type { AlphaMask, RasterImage } from './imageData';
+
+export type ChromaKeySpace = 'ycbcr' | 'hsv';
+
+// Fractions (0–1) of the image size, so the matte survives downscaled previews
+export interface GarbageMatte {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ChromaKeyOptions {
+  // Hex color of the screen
+  keyColor: string;
+  space: ChromaKeySpace;
+  // Distance (0–1) below which pixels are fully transparent
+  tolerance: number;
+  // Width (0–1) of the ramp from transparent to opaque
+  softness: number;
+  // 0–1, how much of the key color's tint is removed from the kept pixels
+  spillSuppression: number;
+  // Everything outside this rectangle is background; null keys the whole frame
+  garbageMatte: GarbageMatte | null;
+}
+
+export const DEFAULT_CHROMA_KEY_OPTIONS: ChromaKeyOptions = {
+  keyColor: '#00b140',
+  space: 'ycbcr',
+  tolerance: 0.15,
+  softness: 0.12,
+  spillSuppression: 0.7,
+  garbageMatte: null,
+};
+
+export const CHROMA_KEY_COLORS: { label: string; color: string }[] = [
+  { label: 'Green screen', color: '#00b140' },
+  { label: 'Blue screen', color: '#0047bb' },
+];
+
+// Below this brightness (0–1) saturation is mostly sensor noise
+const HSV_DARK_LEVEL = 0.15;
+
+function parseHex(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+// BT.601 chroma, centered on zero
+function chromaCb(r: number, g: number, b: number): number {
+  return -0.168736 * r - 0.331264 * g + 0.5 * b;
+}
+
+function chromaCr(r: number, g: number, b: number): number {
+  return 0.5 * r - 0.418688 * g - 0.081312 * b;
+}
+
+// Point on the HSV color wheel: angle = hue, radius = saturation
+function hsvPoint(r: number, g: number, b: number): [number, number] {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  if (max === 0 || max === min) return [0, 0];
+  const value = max / 255;
+  const saturation = ((max - min) / max) * Math.min(1, value / HSV_DARK_LEVEL);
+  let hue: number;
+  if (max === r) hue = (g - b) / (max - min);
+  else if (max === g) hue = 2 + (b - r) / (max - min);
+  else hue = 4 + (r - g) / (max - min);
+  const angle = (hue * Math.PI) / 3;
+  return [saturation * Math.cos(angle), saturation * Math.sin(angle)];
+}
+
+// 0 at the key color, roughly 1 for colors far from it
+function keyDistance(space: ChromaKeySpace, key: [number, number, number]) {
+  if (space === 'hsv') {
+    const [kx, ky] = hsvPoint(...key);
+    return (r: number, g: number, b: number) => {
+      const [x, y] = hsvPoint(r, g, b);
+      // Two points on the unit disc are at most 2 apart
+      return Math.hypot(x - kx, y - ky) / 2;
+    };
+  }
+  const keyCb = chromaCb(...key);
+  const keyCr = chromaCr(...key);
+  return (r: number, g: number, b: number) => (
+    Math.hypot(chromaCb(r, g, b) - keyCb, chromaCr(r, g, b) - keyCr) / 255
+  );
+}
+
+function insideMatte(matte: GarbageMatte, x: number, y: number, width: number, height: number): boolean {
+  const u = (x + 0.5) / width;
+  const v = (y + 0.5) / height;
+  return u >= matte.x && u <= matte.x + matte.width && v >= matte.y && v <= matte.y + matte.height;
+}
+
+export function chromaKeyMask(image: RasterImage, options: ChromaKeyOptions = DEFAULT_CHROMA_KEY_OPTIONS): AlphaMask {
+  const { width, height, data } = image;
+  const mask = new Uint8ClampedArray(width * height);
+  const distance = keyDistance(options.space, parseHex(options.keyColor));
+  const softness = Math.max(options.softness, 1e-3);
+  const matte = options.garbageMatte;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      if (matte && !insideMatte(matte, x, y, width, height)) continue;
+      const i = index * 4;
+      const d = distance(data[i], data[i + 1], data[i + 2]);
+      mask[index] = Math.round(Math.min(1, Math.max(0, (d - options.tolerance) / softness)) * 255);
+    }
+  }
+  return { width, height, data: mask };
+}
+
+// Removes the part of each pixel's chroma that points toward the key color,
+// keeping its brightness: green fringes on hair turn neutral instead of green
+export function suppressSpill(image: RasterImage, options: ChromaKeyOptions): RasterImage {
+  const data = new Uint8ClampedArray(image.data);
+  const strength = Math.min(1, Math.max(0, options.spillSuppression));
+  if (strength === 0) return { width: image.width, height: image.height, data };
+
+  const key = parseHex(options.keyColor);
+  const keyCb = chromaCb(...key);
+  const keyCr = chromaCr(...key);
+  const length = Math.hypot(keyCb, keyCr);
+  // A gray key has no tint to remove
+  if (length < 1) return { width: image.width, height: image.height, data };
+  const ux = keyCb / length;
+  const uy = keyCr / length;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const cb = chromaCb(r, g, b);
+    const cr = chromaCr(r, g, b);
+    const spill = (cb * ux + cr * uy) * strength;
+    if (spill <= 0) continue;
+    const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+    const newCb = cb - spill * ux;
+    const newCr = cr - spill * uy;
+    data[i] = luma + 1.402 * newCr;
+    data[i + 1] = luma - 0.344136 * newCb - 0.714136 * newCr;
+    data[i + 2] = luma + 1.772 * newCb;
+  }
+  return { width: image.width, height: image.height, data };
+}
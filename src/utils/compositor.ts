@@ -0,0 +1,221 @@
+// Places a cutout on a new background with optional shadows.
+// Sizes are relative to the output so previews and full-size exports match.
+import type { PixelBounds } from './imageData';
+
+export type ImageFit = 'cover' | 'contain' | 'tile';
+
+export type BackgroundSpec =
+  | { type: 'transparent' }
+  | { type: 'color'; color: string }
+  | { type: 'linear-gradient'; from: string; to: string; angle: number }
+  | { type: 'radial-gradient'; inner: string; outer: string }
+  | { type: 'image'; image: ImageBitmap; fit: ImageFit }
+  // Blurred copy of the original photo (portrait effect); radius in % of the longer side
+  | { type: 'blur'; radius: number };
+
+export interface DropShadow {
+  color: string;
+  opacity: number;
+  // Percent of the longer side
+  blur: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export interface ContactShadow {
+  opacity: number;
+  // Ellipse width relative to the subject width
+  spread: number;
+  // Ellipse height in percent of the subject height
+  height: number;
+}
+
+export interface CompositionSpec {
+  background: BackgroundSpec;
+  dropShadow: DropShadow | null;
+  contactShadow: ContactShadow | null;
+}
+
+export const DEFAULT_COMPOSITION: CompositionSpec = {
+  background: { type: 'transparent' },
+  dropShadow: null,
+  contactShadow: null,
+};
+
+export const DEFAULT_DROP_SHADOW: DropShadow = {
+  color: '#000000',
+  opacity: 0.35,
+  blur: 2,
+  offsetX: 1,
+  offsetY: 2,
+};
+
+export const DEFAULT_CONTACT_SHADOW: ContactShadow = {
+  opacity: 0.45,
+  spread: 0.9,
+  height: 6,
+};
+
+export type SizedImageSource = CanvasImageSource & { width: number; height: number };
+
+export interface CompositionSources {
+  // Background-removed subject
+  subject: SizedImageSource;
+  // Untouched photo, needed for the blur background
+  original?: SizedImageSource | null;
+  // Subject bounding box in subject pixels, needed for the contact shadow
+  bounds?: PixelBounds | null;
+}
+
+function withOpacity(hex: string, opacity: number): string {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${opacity})`;
+}
+
+function drawFitted(
+  ctx: CanvasRenderingContext2D,
+  image: SizedImageSource,
+  fit: 'cover' | 'contain',
+  width: number,
+  height: number,
+  overscan = 0
+) {
+  const targetWidth = width + overscan * 2;
+  const targetHeight = height + overscan * 2;
+  const scale = fit === 'cover'
+    ? Math.max(targetWidth / image.width, targetHeight / image.height)
+    : Math.min(targetWidth / image.width, targetHeight / image.height);
+  const drawWidth = image.width * scale;
+  const drawHeight = image.height * scale;
+  ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+}
+
+function drawBackground(
+  ctx: CanvasRenderingContext2D,
+  background: BackgroundSpec,
+  width: number,
+  height: number,
+  // Output pixels per subject pixel
+  scale: number,
+  original?: SizedImageSource | null
+) {
+  switch (background.type) {
+    case 'transparent':
+      return;
+    case 'color':
+      ctx.fillStyle = background.color;
+      ctx.fillRect(0, 0, width, height);
+      return;
+    case 'linear-gradient': {
+      // Gradient line through the center, long enough to cover the corners
+      const radians = (background.angle * Math.PI) / 180;
+      const half = (Math.abs(width * Math.sin(radians)) + Math.abs(height * Math.cos(radians))) / 2;
+      const dx = Math.sin(radians) * half;
+      const dy = -Math.cos(radians) * half;
+      const gradient = ctx.createLinearGradient(width / 2 - dx, height / 2 - dy, width / 2 + dx, height / 2 + dy);
+      gradient.addColorStop(0, background.from);
+      gradient.addColorStop(1, background.to);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, width, height);
+      return;
+    }
+    case 'radial-gradient': {
+      const gradient = ctx.createRadialGradient(width / 2, height / 2, 0, width / 2, height / 2, Math.hypot(width, height) / 2);
+      gradient.addColorStop(0, background.inner);
+      gradient.addColorStop(1, background.outer);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, width, height);
+      return;
+    }
+    case 'image': {
+      const { image, fit } = background;
+      if (fit === 'tile') {
+        const pattern = ctx.createPattern(image, 'repeat');
+        if (pattern) {
+          // Tiles keep their size relative to the subject, so a downscaled
+          // preview shows as many of them as the full-size export
+          pattern.setTransform(new DOMMatrix().scale(scale));
+          ctx.fillStyle = pattern;
+          ctx.fillRect(0, 0, width, height);
+        }
+        return;
+      }
+      drawFitted(ctx, image, fit, width, height);
+      return;
+    }
+    case 'blur': {
+      if (!original) return;
+      const radius = (background.radius / 100) * Math.max(width, height);
+      // Overscan so the blur doesn't pull in transparent edges
+      ctx.save();
+      ctx.filter = `blur(${radius}px)`;
+      drawFitted(ctx, original, 'cover', width, height, radius * 2);
+      ctx.restore();
+      return;
+    }
+  }
+}
+
+function drawContactShadow(
+  ctx: CanvasRenderingContext2D,
+  shadow: ContactShadow,
+  bounds: PixelBounds,
+  scale: number
+) {
+  const centerX = (bounds.x + bounds.width / 2) * scale;
+  const centerY = (bounds.y + bounds.height) * scale;
+  const radiusX = (bounds.width * shadow.spread * scale) / 2;
+  const radiusY = Math.max(1, (bounds.height * shadow.height * scale) / 200);
+
+  ctx.save();
+  ctx.translate(centerX, centerY);
+  ctx.scale(1, radiusY / radiusX);
+  const gradient = ctx.createRadialGradient(0, 0, 0, 0, 0, radiusX);
+  gradient.addColorStop(0, `rgba(0, 0, 0, ${shadow.opacity})`);
+  gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+  ctx.fillStyle = gradient;
+  ctx.beginPath();
+  ctx.arc(0, 0, radiusX, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+}
+
+// Render the composition at the given output size.
+// `opaque` fills any remaining transparency with white (for JPG).
+export function renderComposition(
+  sources: CompositionSources,
+  spec: CompositionSpec,
+  width: number,
+  height: number,
+  opaque = false
+): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const scale = width / sources.subject.width;
+  const longerSide = Math.max(width, height);
+
+  if (opaque) {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+  }
+  drawBackground(ctx, spec.background, width, height, scale, sources.original);
+
+  if (spec.contactShadow && sources.bounds) {
+    drawContactShadow(ctx, spec.contactShadow, sources.bounds, scale);
+  }
+
+  ctx.save();
+  if (spec.dropShadow) {
+    const shadow = spec.dropShadow;
+    ctx.shadowColor = withOpacity(shadow.color, shadow.opacity);
+    ctx.shadowBlur = (shadow.blur / 100) * longerSide;
+    ctx.shadowOffsetX = (shadow.offsetX / 100) * longerSide;
+    ctx.shadowOffsetY = (shadow.offsetY / 100) * longerSide;
+  }
+  ctx.drawImage(sources.subject, 0, 0, width, height);
+  ctx.restore();
+
+  return canvas;
+}
@@ -0,0 +1,81 @@
+// Removes background color spill from semi-transparent edge pixels.
+// An edge pixel mixes foreground and old background: C = αF + (1 − α)B.
+// Knowing B and α we solve for F and move the pixel towards it.
+import { AlphaMask, loadImageData, RasterImage } from './imageData';
+import type { RemovalResult } from '../providers';
+
+export type RGB = [number, number, number];
+
+export interface DecontaminationOptions {
+  // 0 leaves colors untouched, 1 uses the full foreground estimate
+  strength: number;
+  // Old background color; null estimates it from the cut-away pixels
+  background: RGB | null;
+}
+
+export const DEFAULT_DECONTAMINATION_OPTIONS: DecontaminationOptions = {
+  strength: 0.8,
+  background: null,
+};
+
+// Alpha below this counts as background, above 255 − this as foreground
+const SOLID_MARGIN = 8;
+// Keeps the estimate stable in nearly transparent pixels
+const MIN_ALPHA = 0.05;
+
+// Mean color of the pixels the mask removed, or null if nothing was removed
+export function estimateBackgroundColor(source: RasterImage, mask: AlphaMask): RGB | null {
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  let count = 0;
+  for (let i = 0; i < mask.data.length; i++) {
+    if (mask.data[i] > SOLID_MARGIN) continue;
+    r += source.data[i * 4];
+    g += source.data[i * 4 + 1];
+    b += source.data[i * 4 + 2];
+    count++;
+  }
+  return count > 0 ? [r / count, g / count, b / count] : null;
+}
+
+// `source` holds the original colors and must match the mask's size
+export function decontaminate(
+  source: RasterImage,
+  mask: AlphaMask,
+  options: DecontaminationOptions = DEFAULT_DECONTAMINATION_OPTIONS
+): RasterImage {
+  const data = new Uint8ClampedArray(source.data);
+  const background = options.background ?? estimateBackgroundColor(source, mask);
+  const strength = Math.min(1, Math.max(0, options.strength));
+
+  for (let i = 0; i < mask.data.length; i++) {
+    const alphaByte = mask.data[i];
+    data[i * 4 + 3] = alphaByte;
+    if (!background || strength === 0 || alphaByte <= SOLID_MARGIN || alphaByte >= 255 - SOLID_MARGIN) continue;
+
+    const alpha = Math.max(alphaByte / 255, MIN_ALPHA);
+    for (let c = 0; c < 3; c++) {
+      const observed = source.data[i * 4 + c];
+      const foreground = Math.min(255, Math.max(0, (observed - (1 - alpha) * background[c]) / alpha));
+      data[i * 4 + c] = observed + strength * (foreground - observed);
+    }
+  }
+
+  return { width: mask.width, height: mask.height, data };
+}
+
+// Rebuild a provider result from the original's colors with the spill removed
+export async function decontaminateResult(
+  result: RemovalResult,
+  original: Blob,
+  options: DecontaminationOptions = DEFAULT_DECONTAMINATION_OPTIONS
+): Promise<RemovalResult> {
+  if (options.strength <= 0 || result.cropped || result.despilled) return result;
+  const { mask } = result;
+  const source = await loadImageData(original, mask.width, mask.height);
+  // Nothing was cut away (e.g. a result with a background color baked in)
+  const background = options.background ?? estimateBackgroundColor(source, mask);
+  if (!background) return result;
+  return { ...result, image: decontaminate(source, mask, { ...options, background }) };
+}
@@ -0,0 +1,143 @@
+// Encodes compositions to files: format, scale, quality, masks and filenames
+import { CompositionSources, CompositionSpec, renderComposition } from './compositor';
+import { canvasToBlob } from './download';
+
+export type ExportFormat = 'png' | 'jpg' | 'webp' | 'avif';
+
+export type ExportContent = 'image' | 'mask' | 'image+mask';
+
+export interface ExportFormatInfo {
+  label: string;
+  mimeType: string;
+  extension: string;
+  lossy: boolean;
+  transparent: boolean;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  png: { label: 'PNG', mimeType: 'image/png', extension: 'png', lossy: false, transparent: true },
+  jpg: { label: 'JPG', mimeType: 'image/jpeg', extension: 'jpg', lossy: true, transparent: false },
+  webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp', lossy: true, transparent: true },
+  avif: { label: 'AVIF', mimeType: 'image/avif', extension: 'avif', lossy: true, transparent: true },
+};
+
+export interface ExportSettings {
+  format: ExportFormat;
+  content: ExportContent;
+  // 0–1, ignored by lossless formats
+  quality: number;
+  // Longer output side in pixels; null keeps the full resolution
+  maxDimension: number | null;
+  // Tokens: {name} {width} {height} {format} {date}
+  filenameTemplate: string;
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'png',
+  content: 'image',
+  quality: 0.9,
+  maxDimension: null,
+  filenameTemplate: '{name}-background-removed',
+};
+
+export interface ExportFile {
+  blob: Blob;
+  filename: string;
+}
+
+const formatSupport = new Map<ExportFormat, Promise<boolean>>();
+
+// Browsers silently fall back to PNG for encoders they lack, so probe the output type
+export function isFormatSupported(format: ExportFormat): Promise<boolean> {
+  let supported = formatSupport.get(format);
+  if (!supported) {
+    const canvas = document.createElement('canvas');
+    canvas.width = 1;
+    canvas.height = 1;
+    const { mimeType } = EXPORT_FORMATS[format];
+    supported = canvasToBlob(canvas, mimeType).then(blob => blob.type === mimeType, () => false);
+    formatSupport.set(format, supported);
+  }
+  return supported;
+}
+
+export interface FilenameContext {
+  // Original file name, with or without extension
+  name: string;
+  width: number;
+  height: number;
+  format: ExportFormat;
+}
+
+export function formatFilename(template: string, context: FilenameContext): string {
+  const values: Record<string, string> = {
+    name: context.name.replace(/\.[^.]+$/, ''),
+    width: String(context.width),
+    height: String(context.height),
+    format: context.format,
+    date: new Date().toISOString().slice(0, 10),
+  };
+  const filename = template
+    .replace(/\{(\w+)\}/g, (token, key: string) => values[key] ?? token)
+    .replace(/[\\/:*?"<>|]/g, '_')
+    .trim();
+  return filename || values.name;
+}
+
+function outputSize(sources: CompositionSources, maxDimension: number | null) {
+  const { width, height } = sources.subject;
+  const scale = maxDimension ? Math.min(1, maxDimension / Math.max(width, height)) : 1;
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+// Grayscale matte (white = subject), the form Photoshop and most editors load as a mask
+export function renderMask(sources: CompositionSources, width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(sources.subject, 0, 0, width, height);
+  const pixels = ctx.getImageData(0, 0, width, height);
+  const { data } = pixels;
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3];
+    data[i] = alpha;
+    data[i + 1] = alpha;
+    data[i + 2] = alpha;
+    data[i + 3] = 255;
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return canvas;
+}
+
+export async function exportComposition(
+  sources: CompositionSources,
+  spec: CompositionSpec,
+  settings: ExportSettings,
+  originalName: string
+): Promise<ExportFile[]> {
+  const { width, height } = outputSize(sources, settings.maxDimension);
+  const info = EXPORT_FORMATS[settings.format];
+  const baseName = formatFilename(settings.filenameTemplate, { name: originalName, width, height, format: settings.format });
+  const quality = info.lossy ? settings.quality : undefined;
+  const files: ExportFile[] = [];
+
+  if (settings.content !== 'mask') {
+    const canvas = renderComposition(sources, spec, width, height, !info.transparent);
+    files.push({
+      blob: await canvasToBlob(canvas, info.mimeType, quality),
+      filename: `${baseName}.${info.extension}`,
+    });
+  }
+  if (settings.content !== 'image') {
+    // Masks are always lossless so edges survive round-trips through editors
+    files.push({
+      blob: await canvasToBlob(renderMask(sources, width, height), 'image/png'),
+      filename: `${baseName}-mask.png`,
+    });
+  }
+  return files;
+}
@@ -0,0 +1,43 @@
+// Segment a downscaled proxy, then carry the matte back to the untouched original
+import type { BackgroundRemover, RemovalResult, RemoveOptions } from '../providers';
+import { ChromaKeyOptions, suppressSpill } from './chromaKey';
+import { DEFAULT_GUIDED_UPSAMPLE_OPTIONS, guidedUpsample, GuidedUpsampleOptions } from './guidedUpsample';
+import { applyMask, loadImageData } from './imageData';
+
+export interface FullResolutionOptions extends RemoveOptions {
+  guided?: GuidedUpsampleOptions;
+  // Settings of the chroma key that produced a despilled result, to despill the original the same way
+  chromaKey?: ChromaKeyOptions;
+}
+
+// Upsample a proxy-resolution result onto the full-resolution source.
+// Results that are already full size, or cropped by the provider, pass through.
+export async function upscaleResult(
+  result: RemovalResult,
+  source: Blob,
+  options: FullResolutionOptions = {}
+): Promise<RemovalResult> {
+  if (result.cropped) return result;
+
+  const original = await loadImageData(source);
+  if (original.width <= result.mask.width && original.height <= result.mask.height) return result;
+  if (options.signal?.aborted) throw new DOMException('Upscaling cancelled', 'AbortError');
+
+  options.onProgress?.(`Upscaling matte to ${original.width}×${original.height}...`);
+  const mask = guidedUpsample(result.mask, original, options.guided ?? DEFAULT_GUIDED_UPSAMPLE_OPTIONS);
+  // Keep the provider's spill suppression instead of falling back to the raw colors
+  const spill = result.despilled ? options.chromaKey : undefined;
+  const colors = spill ? suppressSpill(original, spill) : original;
+  // The provider's encoded file is proxy-sized, so it no longer matches
+  return { mask, image: applyMask(colors, mask), despilled: !!spill, cached: result.cached };
+}
+
+export async function removeAtFullResolution(
+  remover: BackgroundRemover,
+  proxy: File,
+  source: Blob,
+  options: FullResolutionOptions = {}
+): Promise<RemovalResult> {
+  const result = await remover.remove(proxy, options);
+  return upscaleResult(result, source, options);
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { grabCut } from './graphCut';
+import type { AlphaMask, RasterImage } from './imageData';
+
+const SIZE = 24;
+
+// Grey background with a red square from 8 to 16 on both axes
+function squareImage(): RasterImage {
+  const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const inside = x >= 8 && x < 16 && y >= 8 && y < 16;
+      data.set(inside ? [210, 40, 40, 255] : [120, 120, 120, 255], (y * SIZE + x) * 4);
+    }
+  }
+  return { width: SIZE, height: SIZE, data };
+}
+
+function alphaAt(mask: AlphaMask, x: number, y: number): number {
+  return mask.data[y * mask.width + x];
+}
+
+describe('grabCut', () => {
+  it('cuts the subject out of the seed box', () => {
+    const mask = grabCut(squareImage(), { rect: { x: 4, y: 4, width: 16, height: 16 }, strokes: [] });
+    expect(mask).toMatchObject({ width: SIZE, height: SIZE });
+    expect(alphaAt(mask, 12, 12)).toBeGreaterThan(200);
+    expect(alphaAt(mask, 5, 5)).toBeLessThan(50);
+    expect(alphaAt(mask, 0, 0)).toBe(0);
+  });
+
+  it('keeps background strokes out of the mask', () => {
+    const mask = grabCut(squareImage(), {
+      rect: { x: 4, y: 4, width: 16, height: 16 },
+      strokes: [{ label: 'background', radius: 2, points: [{ x: 12, y: 12 }] }],
+    });
+    expect(alphaAt(mask, 12, 12)).toBeLessThan(50);
+  });
+
+  it('returns a mask at the source size when solving on a smaller grid', () => {
+    const mask = grabCut(
+      squareImage(),
+      { rect: { x: 4, y: 4, width: 16, height: 16 }, strokes: [] },
+      { workingSize: 12, smoothness: 50, iterations: 2 }
+    );
+    expect(mask.data).toHaveLength(SIZE * SIZE);
+    expect(alphaAt(mask, 12, 12)).toBeGreaterThan(200);
+    expect(alphaAt(mask, 1, 1)).toBe(0);
+  });
+});
@@ -0,0 +1,507 @@
+// GrabCut-style interactive segmentation: a bounding box and foreground/background
+// scribbles seed color models, and a min-cut on the pixel grid decides the mask.
+// Pure typed-array code so it runs in the segmentation worker.
+import type { AlphaMask, RasterImage } from './imageData';
+import { detectEdges, refineEdges } from './segmentationFilters';
+
+export interface SeedRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SeedStroke {
+  label: 'foreground' | 'background';
+  radius: number;
+  points: { x: number; y: number }[];
+}
+
+// Coordinates are in source image pixels
+export interface SegmentationSeeds {
+  rect: SeedRect | null;
+  strokes: SeedStroke[];
+}
+
+export interface GraphCutOptions {
+  // Longest side of the grid the cut is solved on
+  workingSize: number;
+  // Weight of the smoothness term relative to the color term
+  smoothness: number;
+  // Color model re-estimation rounds
+  iterations: number;
+}
+
+export const DEFAULT_GRAPH_CUT_OPTIONS: GraphCutOptions = {
+  workingSize: 400,
+  smoothness: 50,
+  iterations: 3,
+};
+
+// 0 leaves a pixel unconstrained
+const SEED_FOREGROUND = 1;
+const SEED_BACKGROUND = 2;
+
+const HISTOGRAM_BITS = 4;
+const HISTOGRAM_BINS = 1 << (HISTOGRAM_BITS * 3);
+// Capacities are integers to keep the max-flow exact
+const CAPACITY_SCALE = 100;
+const HARD_CONSTRAINT = 1 << 28;
+
+function downscale(image: RasterImage, width: number, height: number): RasterImage {
+  if (width === image.width && height === image.height) return image;
+  const data = new Uint8ClampedArray(width * height * 4);
+  const scaleX = image.width / width;
+  const scaleY = image.height / height;
+
+  // Box filter over the source pixels covered by each target pixel
+  for (let y = 0; y < height; y++) {
+    const sy0 = Math.floor(y * scaleY);
+    const sy1 = Math.max(sy0 + 1, Math.floor((y + 1) * scaleY));
+    for (let x = 0; x < width; x++) {
+      const sx0 = Math.floor(x * scaleX);
+      const sx1 = Math.max(sx0 + 1, Math.floor((x + 1) * scaleX));
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let count = 0;
+      for (let sy = sy0; sy < sy1; sy++) {
+        for (let sx = sx0; sx < sx1; sx++) {
+          const i = (sy * image.width + sx) * 4;
+          r += image.data[i];
+          g += image.data[i + 1];
+          b += image.data[i + 2];
+          count++;
+        }
+      }
+      const o = (y * width + x) * 4;
+      data[o] = r / count;
+      data[o + 1] = g / count;
+      data[o + 2] = b / count;
+      data[o + 3] = 255;
+    }
+  }
+
+  return { width, height, data };
+}
+
+function upscaleMask(mask: AlphaMask, width: number, height: number): AlphaMask {
+  if (width === mask.width && height === mask.height) return mask;
+  const data = new Uint8ClampedArray(width * height);
+  const scaleX = mask.width / width;
+  const scaleY = mask.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const srcY = Math.min(mask.height - 1, Math.max(0, (y + 0.5) * scaleY - 0.5));
+    const y0 = Math.floor(srcY);
+    const y1 = Math.min(mask.height - 1, y0 + 1);
+    const fy = srcY - y0;
+    for (let x = 0; x < width; x++) {
+      const srcX = Math.min(mask.width - 1, Math.max(0, (x + 0.5) * scaleX - 0.5));
+      const x0 = Math.floor(srcX);
+      const x1 = Math.min(mask.width - 1, x0 + 1);
+      const fx = srcX - x0;
+      const top = mask.data[y0 * mask.width + x0] * (1 - fx) + mask.data[y0 * mask.width + x1] * fx;
+      const bottom = mask.data[y1 * mask.width + x0] * (1 - fx) + mask.data[y1 * mask.width + x1] * fx;
+      data[y * width + x] = top * (1 - fy) + bottom * fy;
+    }
+  }
+
+  return { width, height, data };
+}
+
+// Rasterize the box and scribbles into per-pixel hard constraints at grid resolution
+function rasterizeSeeds(seeds: SegmentationSeeds, scale: number, width: number, height: number): Uint8Array {
+  const labels = new Uint8Array(width * height);
+
+  if (seeds.rect) {
+    const x0 = Math.floor(seeds.rect.x * scale);
+    const y0 = Math.floor(seeds.rect.y * scale);
+    const x1 = Math.ceil((seeds.rect.x + seeds.rect.width) * scale);
+    const y1 = Math.ceil((seeds.rect.y + seeds.rect.height) * scale);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (x < x0 || x >= x1 || y < y0 || y >= y1) {
+          labels[y * width + x] = SEED_BACKGROUND;
+        }
+      }
+    }
+  }
+
+  const stamp = (cx: number, cy: number, radius: number, label: number) => {
+    const r = Math.max(1, radius);
+    for (let y = Math.max(0, Math.floor(cy - r)); y <= Math.min(height - 1, Math.ceil(cy + r)); y++) {
+      for (let x = Math.max(0, Math.floor(cx - r)); x <= Math.min(width - 1, Math.ceil(cx + r)); x++) {
+        if ((x - cx) ** 2 + (y - cy) ** 2 <= r * r) {
+          labels[y * width + x] = label;
+        }
+      }
+    }
+  };
+
+  seeds.strokes.forEach(stroke => {
+    const label = stroke.label === 'foreground' ? SEED_FOREGROUND : SEED_BACKGROUND;
+    const radius = stroke.radius * scale;
+    stroke.points.forEach((point, i) => {
+      const previous = stroke.points[i - 1] ?? point;
+      const steps = Math.max(1, Math.ceil(Math.hypot(point.x - previous.x, point.y - previous.y) * scale / Math.max(1, radius / 2)));
+      for (let s = 1; s <= steps; s++) {
+        const t = s / steps;
+        stamp((previous.x + (point.x - previous.x) * t) * scale, (previous.y + (point.y - previous.y) * t) * scale, radius, label);
+      }
+    });
+  });
+
+  return labels;
+}
+
+function colorBin(data: Uint8ClampedArray, pixel: number): number {
+  const shift = 8 - HISTOGRAM_BITS;
+  const i = pixel * 4;
+  return ((data[i] >> shift) << (HISTOGRAM_BITS * 2)) | ((data[i + 1] >> shift) << HISTOGRAM_BITS) | (data[i + 2] >> shift);
+}
+
+// Negative log-likelihood per color bin, with add-one smoothing
+function colorCosts(bins: Uint16Array, include: (pixel: number) => boolean): Float32Array {
+  const counts = new Float32Array(HISTOGRAM_BINS);
+  let total = 0;
+  for (let p = 0; p < bins.length; p++) {
+    if (include(p)) {
+      counts[bins[p]]++;
+      total++;
+    }
+  }
+  const costs = new Float32Array(HISTOGRAM_BINS);
+  for (let bin = 0; bin < HISTOGRAM_BINS; bin++) {
+    costs[bin] = -Math.log((counts[bin] + 1) / (total + HISTOGRAM_BINS));
+  }
+  return costs;
+}
+
+const TERMINAL = 4;
+const ORPHAN = -1;
+const FREE = 0;
+const SOURCE = 1;
+const SINK = 2;
+
+// Boykov-Kolmogorov max-flow on a 4-connected grid.
+// `edges[p * 4 + d]` is the residual capacity from p towards its neighbor in
+// direction d (0 right, 1 down, 2 left, 3 up); `terminals[p]` is positive for
+// residual source capacity and negative for residual sink capacity.
+// Returns the tree label of every pixel; SOURCE pixels are foreground.
+function solveGridMaxFlow(width: number, height: number, edges: Int32Array, terminals: Int32Array): Uint8Array {
+  const size = width * height;
+  const tree = new Uint8Array(size);
+  const parent = new Int8Array(size).fill(ORPHAN);
+  const timestamp = new Int32Array(size);
+  const distance = new Int32Array(size);
+  const isActive = new Uint8Array(size);
+  let active: number[] = [];
+  let activeHead = 0;
+  let orphans: number[] = [];
+  let time = 0;
+
+  const neighbor = (p: number, d: number): number => {
+    const x = p % width;
+    switch (d) {
+      case 0: return x < width - 1 ? p + 1 : -1;
+      case 1: return p + width < size ? p + width : -1;
+      case 2: return x > 0 ? p - 1 : -1;
+      default: return p - width >= 0 ? p - width : -1;
+    }
+  };
+  const opposite = (d: number) => (d + 2) & 3;
+  const activate = (p: number) => {
+    if (!isActive[p]) {
+      isActive[p] = 1;
+      active.push(p);
+    }
+  };
+
+  for (let p = 0; p < size; p++) {
+    if (terminals[p] !== 0) {
+      tree[p] = terminals[p] > 0 ? SOURCE : SINK;
+      parent[p] = TERMINAL;
+      distance[p] = 1;
+      activate(p);
+    }
+  }
+
+  const augment = (from: number, d: number) => {
+    const to = neighbor(from, d);
+    let bottleneck = edges[from * 4 + d];
+
+    let x = from;
+    while (parent[x] !== TERMINAL) {
+      const dir = parent[x];
+      const y = neighbor(x, dir);
+      bottleneck = Math.min(bottleneck, edges[y * 4 + opposite(dir)]);
+      x = y;
+    }
+    bottleneck = Math.min(bottleneck, terminals[x]);
+
+    x = to;
+    while (parent[x] !== TERMINAL) {
+      const dir = parent[x];
+      bottleneck = Math.min(bottleneck, edges[x * 4 + dir]);
+      x = neighbor(x, dir);
+    }
+    bottleneck = Math.min(bottleneck, -terminals[x]);
+
+    edges[from * 4 + d] -= bottleneck;
+    edges[to * 4 + opposite(d)] += bottleneck;
+
+    // Source side
+    x = from;
+    while (parent[x] !== TERMINAL) {
+      const dir = parent[x];
+      const y = neighbor(x, dir);
+      edges[y * 4 + opposite(dir)] -= bottleneck;
+      edges[x * 4 + dir] += bottleneck;
+      if (edges[y * 4 + opposite(dir)] === 0) {
+        parent[x] = ORPHAN;
+        orphans.push(x);
+      }
+      x = y;
+    }
+    terminals[x] -= bottleneck;
+    if (terminals[x] === 0) {
+      parent[x] = ORPHAN;
+      orphans.push(x);
+    }
+
+    // Sink side
+    x = to;
+    while (parent[x] !== TERMINAL) {
+      const dir = parent[x];
+      const y = neighbor(x, dir);
+      edges[x * 4 + dir] -= bottleneck;
+      edges[y * 4 + opposite(dir)] += bottleneck;
+      if (edges[x * 4 + dir] === 0) {
+        parent[x] = ORPHAN;
+        orphans.push(x);
+      }
+      x = y;
+    }
+    terminals[x] += bottleneck;
+    if (terminals[x] === 0) {
+      parent[x] = ORPHAN;
+      orphans.push(x);
+    }
+  };
+
+  // Residual capacity that lets `q` act as parent of `p` in tree `side`
+  const canReach = (side: number, p: number, d: number, q: number) => (
+    side === SOURCE ? edges[q * 4 + opposite(d)] > 0 : edges[p * 4 + d] > 0
+  );
+
+  const adopt = (p: number) => {
+    const side = tree[p];
+    let bestDir = -1;
+    let bestDistance = Infinity;
+
+    for (let d = 0; d < 4; d++) {
+      const q = neighbor(p, d);
+      if (q < 0 || tree[q] !== side || !canReach(side, p, d, q)) continue;
+
+      // Walk up to check that q is still connected to a terminal
+      let depth = 0;
+      let x = q;
+      for (;;) {
+        if (timestamp[x] === time) {
+          depth += distance[x];
+          break;
+        }
+        depth++;
+        if (parent[x] === TERMINAL) {
+          timestamp[x] = time;
+          distance[x] = 1;
+          break;
+        }
+        if (parent[x] === ORPHAN) {
+          depth = Infinity;
+          break;
+        }
+        x = neighbor(x, parent[x]);
+      }
+
+      if (depth < Infinity) {
+        if (depth < bestDistance) {
+          bestDir = d;
+          bestDistance = depth;
+        }
+        for (let y = q, dist = depth; timestamp[y] !== time; y = neighbor(y, parent[y])) {
+          timestamp[y] = time;
+          distance[y] = dist--;
+        }
+      }
+    }
+
+    if (bestDir >= 0) {
+      parent[p] = bestDir;
+      timestamp[p] = time;
+      distance[p] = bestDistance + 1;
+      return;
+    }
+
+    // No valid parent: p leaves its tree and its children become orphans
+    for (let d = 0; d < 4; d++) {
+      const q = neighbor(p, d);
+      if (q < 0 || tree[q] !== side) continue;
+      if (canReach(side, p, d, q)) activate(q);
+      if (parent[q] !== TERMINAL && parent[q] !== ORPHAN && neighbor(q, parent[q]) === p) {
+        parent[q] = ORPHAN;
+        orphans.push(q);
+      }
+    }
+    tree[p] = FREE;
+  };
+
+  for (;;) {
+    // Pick the next active node
+    let p = -1;
+    while (activeHead < active.length) {
+      const candidate = active[activeHead];
+      if (tree[candidate] !== FREE) {
+        p = candidate;
+        break;
+      }
+      isActive[candidate] = 0;
+      activeHead++;
+    }
+    if (p < 0) break;
+    if (activeHead > 65536) {
+      active = active.slice(activeHead);
+      activeHead = 0;
+    }
+
+    // Growth stage
+    let meetFrom = -1;
+    let meetDir = -1;
+    for (let d = 0; d < 4; d++) {
+      const q = neighbor(p, d);
+      if (q < 0) continue;
+      if (tree[p] === SOURCE ? edges[p * 4 + d] <= 0 : edges[q * 4 + opposite(d)] <= 0) continue;
+
+      if (tree[q] === FREE) {
+        tree[q] = tree[p];
+        parent[q] = opposite(d);
+        timestamp[q] = timestamp[p];
+        distance[q] = distance[p] + 1;
+        activate(q);
+      } else if (tree[q] !== tree[p]) {
+        meetFrom = tree[p] === SOURCE ? p : q;
+        meetDir = tree[p] === SOURCE ? d : opposite(d);
+        break;
+      } else if (timestamp[q] <= timestamp[p] && distance[q] > distance[p]) {
+        parent[q] = opposite(d);
+        timestamp[q] = timestamp[p];
+        distance[q] = distance[p] + 1;
+      }
+    }
+
+    if (meetFrom < 0) {
+      isActive[p] = 0;
+      activeHead++;
+      continue;
+    }
+
+    // Augmentation and adoption stages
+    time++;
+    augment(meetFrom, meetDir);
+    for (let i = 0; i < orphans.length; i++) {
+      adopt(orphans[i]);
+    }
+    orphans = [];
+  }
+
+  return tree;
+}
+
+export function grabCut(
+  image: RasterImage,
+  seeds: SegmentationSeeds,
+  options: GraphCutOptions = DEFAULT_GRAPH_CUT_OPTIONS
+): AlphaMask {
+  const scale = Math.min(1, options.workingSize / Math.max(image.width, image.height));
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const size = width * height;
+  const grid = downscale(image, width, height);
+
+  // Without any box, assume the subject sits inside a 5% margin
+  const effectiveSeeds: SegmentationSeeds = seeds.rect || seeds.strokes.some(s => s.label === 'background')
+    ? seeds
+    : {
+        ...seeds,
+        rect: {
+          x: image.width * 0.05,
+          y: image.height * 0.05,
+          width: image.width * 0.9,
+          height: image.height * 0.9,
+        },
+      };
+  const hard = rasterizeSeeds(effectiveSeeds, width / image.width, width, height);
+
+  // Smoothness weights from Sobel gradients: cutting across strong edges is cheap
+  const gradients = detectEdges(grid);
+  let meanGradient = 0;
+  for (let p = 0; p < size; p++) meanGradient += gradients[p];
+  meanGradient = Math.max(1, meanGradient / size);
+  const smoothnessWeight = (p: number, q: number) => {
+    const g = Math.max(gradients[p], gradients[q]) / meanGradient;
+    return Math.round(options.smoothness * CAPACITY_SCALE * Math.exp(-0.5 * g * g));
+  };
+  const smoothEdges = new Int32Array(size * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (x < width - 1) {
+        const w = smoothnessWeight(p, p + 1);
+        smoothEdges[p * 4] = w;
+        smoothEdges[(p + 1) * 4 + 2] = w;
+      }
+      if (y < height - 1) {
+        const w = smoothnessWeight(p, p + width);
+        smoothEdges[p * 4 + 1] = w;
+        smoothEdges[(p + width) * 4 + 3] = w;
+      }
+    }
+  }
+
+  const bins = new Uint16Array(size);
+  for (let p = 0; p < size; p++) bins[p] = colorBin(grid.data, p);
+
+  // Initial labelling: everything not marked background is foreground
+  let labels = new Uint8Array(size);
+  for (let p = 0; p < size; p++) labels[p] = hard[p] === SEED_BACKGROUND ? 0 : 1;
+
+  for (let iteration = 0; iteration < Math.max(1, options.iterations); iteration++) {
+    const foregroundCosts = colorCosts(bins, p => labels[p] === 1);
+    const backgroundCosts = colorCosts(bins, p => labels[p] === 0);
+
+    const terminals = new Int32Array(size);
+    for (let p = 0; p < size; p++) {
+      if (hard[p] === SEED_FOREGROUND) {
+        terminals[p] = HARD_CONSTRAINT;
+      } else if (hard[p] === SEED_BACKGROUND) {
+        terminals[p] = -HARD_CONSTRAINT;
+      } else {
+        // Source link costs D_bg, sink link costs D_fg; only the difference matters
+        terminals[p] = Math.round((backgroundCosts[bins[p]] - foregroundCosts[bins[p]]) * CAPACITY_SCALE);
+      }
+    }
+
+    const tree = solveGridMaxFlow(width, height, new Int32Array(smoothEdges), terminals);
+    const next = new Uint8Array(size);
+    for (let p = 0; p < size; p++) next[p] = tree[p] === SOURCE ? 1 : 0;
+    labels = next;
+  }
+
+  const mask = new Uint8ClampedArray(size);
+  for (let p = 0; p < size; p++) mask[p] = labels[p] ? 255 : 0;
+
+  // Upsample and soften the stair-stepped boundary
+  const upscaled = upscaleMask({ width, height, data: mask }, image.width, image.height);
+  return refineEdges(upscaled, { blurRadius: 1 });
+}
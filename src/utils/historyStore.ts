@@ -0,0 +1,347 @@
+// Keeps finished jobs in IndexedDB so a refresh doesn't throw away the work
+// (or the API calls already paid for). Metadata and thumbnails live in one store
+// so the history list stays cheap; the full-size blobs live in another.
+import type { RemovalResult } from '../providers';
+import type { CompositionSpec, ImageFit } from './compositor';
+import type { DecontaminationOptions } from './edgeDecontamination';
+import type { ExportSettings } from './exporter';
+import type { LayoutSpec } from './layout';
+import { canvasToBlob } from './download';
+import { blobToMask, loadImageData, maskToBlob, rasterToBlob, RasterImage, rasterToCanvas } from './imageData';
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+
+const DB_NAME = 'removebg-history';
+const DB_VERSION = 1;
+const ENTRIES = 'entries';
+const FILES = 'files';
+const THUMBNAIL_SIZE = 160;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Everything needed to pick up editing where it was left
+export interface HistorySettings {
+  composition: CompositionSpec;
+  layout: LayoutSpec | null;
+  exportSettings: ExportSettings;
+  decontamination: DecontaminationOptions;
+}
+
+export interface HistoryEntry {
+  id: string;
+  filename: string;
+  providerId: string;
+  width: number;
+  height: number;
+  createdAt: number;
+  updatedAt: number;
+  // Bytes used by the stored blobs
+  size: number;
+  thumbnail: Blob;
+  // Stored with a transparent background in place of an image one; load()
+  // puts the image back
+  settings: HistorySettings;
+  // Set on entries saved by a batch run, which count as one toward maxEntries
+  batchId?: string;
+}
+
+interface HistoryFiles {
+  id: string;
+  source: Blob;
+  // What the provider received, when it differs from the upload
+  prepared: Blob | null;
+  image: Blob;
+  mask: Blob;
+  output: { blob: Blob; extension: string } | null;
+  cropped: boolean;
+  // Missing in entries saved before spill suppression existed
+  despilled?: boolean;
+  // The composition's image background, if it has one
+  background?: { image: Blob; fit: ImageFit } | null;
+}
+
+export interface HistoryInput {
+  filename: string;
+  providerId: string;
+  source: Blob;
+  prepared?: Blob | null;
+  result: RemovalResult;
+  settings: HistorySettings;
+  // Batch runs skip the purge after each save and call purge() once at the end
+  batchId?: string;
+}
+
+export interface HistoryProject {
+  entry: HistoryEntry;
+  source: File;
+  prepared: File;
+  result: RemovalResult;
+}
+
+export interface HistoryPolicy {
+  maxEntries: number;
+  maxAgeDays: number;
+  // Oldest entries are purged while usage is above this share of the quota
+  maxUsage: number;
+}
+
+export const DEFAULT_HISTORY_POLICY: HistoryPolicy = {
+  maxEntries: 50,
+  maxAgeDays: 30,
+  maxUsage: 0.8,
+};
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+function createThumbnail(image: RasterImage): Promise<Blob> {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+  canvas.getContext('2d')!.drawImage(rasterToCanvas(image), 0, 0, canvas.width, canvas.height);
+  return canvasToBlob(canvas, 'image/png');
+}
+
+// Image backgrounds hold an ImageBitmap, which not every browser can store, so
+// the bitmap is kept as a PNG in the files store instead
+function storableSettings(settings: HistorySettings): HistorySettings {
+  if (settings.composition.background.type !== 'image') return settings;
+  return { ...settings, composition: { ...settings.composition, background: { type: 'transparent' } } };
+}
+
+// Settings are saved on every edit; encode each background bitmap only once
+const backgroundBlobs = new WeakMap<ImageBitmap, Promise<Blob>>();
+
+function storableBackground(settings: HistorySettings): Promise<HistoryFiles['background']> {
+  const { background } = settings.composition;
+  if (background.type !== 'image') return Promise.resolve(null);
+  let blob = backgroundBlobs.get(background.image);
+  if (!blob) {
+    const canvas = document.createElement('canvas');
+    canvas.width = background.image.width;
+    canvas.height = background.image.height;
+    canvas.getContext('2d')!.drawImage(background.image, 0, 0);
+    blob = canvasToBlob(canvas, 'image/png');
+    backgroundBlobs.set(background.image, blob);
+  }
+  return blob.then(image => ({ image, fit: background.fit }));
+}
+
+async function restoreSettings(settings: HistorySettings, files: HistoryFiles): Promise<HistorySettings> {
+  if (!files.background) return settings;
+  const image = await createImageBitmap(files.background.image);
+  return {
+    ...settings,
+    composition: { ...settings.composition, background: { type: 'image', image, fit: files.background.fit } },
+  };
+}
+
+function filesSize(files: HistoryFiles): number {
+  return files.source.size + (files.prepared?.size ?? 0) + files.image.size + files.mask.size +
+    (files.output?.blob.size ?? 0) + (files.background?.image.size ?? 0);
+}
+
+export class HistoryStore {
+  private policy: HistoryPolicy;
+  private db: Promise<IDBDatabase> | null = null;
+  private nextId = 0;
+
+  constructor(policy: HistoryPolicy = DEFAULT_HISTORY_POLICY) {
+    this.policy = policy;
+  }
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  getPolicy(): HistoryPolicy {
+    return this.policy;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        db.createObjectStore(ENTRIES, { keyPath: 'id' });
+        db.createObjectStore(FILES, { keyPath: 'id' });
+      });
+      // Allow a retry after e.g. a blocked upgrade
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  async list(): Promise<HistoryEntry[]> {
+    const db = await this.open();
+    const entries = await requestToPromise(db.transaction(ENTRIES).objectStore(ENTRIES).getAll() as IDBRequest<HistoryEntry[]>);
+    return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async save(input: HistoryInput): Promise<HistoryEntry> {
+    const { result } = input;
+    const id = `history_${Date.now()}_${this.nextId++}`;
+    const files: HistoryFiles = {
+      id,
+      source: input.source,
+      prepared: input.prepared && input.prepared !== input.source ? input.prepared : null,
+      image: await rasterToBlob(result.image),
+      mask: await maskToBlob(result.mask),
+      output: result.output ?? null,
+      cropped: result.cropped ?? false,
+      despilled: result.despilled ?? false,
+      background: await storableBackground(input.settings),
+    };
+    const now = Date.now();
+    const entry: HistoryEntry = {
+      id,
+      filename: input.filename,
+      providerId: input.providerId,
+      width: result.image.width,
+      height: result.image.height,
+      createdAt: now,
+      updatedAt: now,
+      size: filesSize(files),
+      thumbnail: await createThumbnail(result.image),
+      settings: storableSettings(input.settings),
+      ...(input.batchId ? { batchId: input.batchId } : {}),
+    };
+
+    const db = await this.open();
+    const transaction = db.transaction([ENTRIES, FILES], 'readwrite');
+    transaction.objectStore(ENTRIES).put(entry);
+    transaction.objectStore(FILES).put(files);
+    await transactionDone(transaction);
+
+    if (!input.batchId) await this.purge(id);
+    return entry;
+  }
+
+  // Store an edited result and/or new settings for an existing entry
+  async update(id: string, changes: { result?: RemovalResult; settings?: HistorySettings }): Promise<void> {
+    const db = await this.open();
+    const [entry, files] = await Promise.all([
+      requestToPromise(db.transaction(ENTRIES).objectStore(ENTRIES).get(id) as IDBRequest<HistoryEntry | undefined>),
+      requestToPromise(db.transaction(FILES).objectStore(FILES).get(id) as IDBRequest<HistoryFiles | undefined>),
+    ]);
+    if (!entry) return;
+
+    const next: HistoryEntry = { ...entry, updatedAt: Date.now() };
+    let nextFiles: HistoryFiles | null = null;
+    if (changes.settings) {
+      next.settings = storableSettings(changes.settings);
+      const background = await storableBackground(changes.settings);
+      if (files && (background || files.background)) {
+        nextFiles = { ...files, background };
+      }
+    }
+    if (changes.result && files) {
+      nextFiles = {
+        ...(nextFiles ?? files),
+        image: await rasterToBlob(changes.result.image),
+        mask: await maskToBlob(changes.result.mask),
+      };
+      next.thumbnail = await createThumbnail(changes.result.image);
+    }
+    if (nextFiles) next.size = filesSize(nextFiles);
+
+    const transaction = db.transaction([ENTRIES, FILES], 'readwrite');
+    transaction.objectStore(ENTRIES).put(next);
+    if (nextFiles) transaction.objectStore(FILES).put(nextFiles);
+    await transactionDone(transaction);
+  }
+
+  async load(id: string): Promise<HistoryProject> {
+    const db = await this.open();
+    const transaction = db.transaction([ENTRIES, FILES]);
+    const [entry, files] = await Promise.all([
+      requestToPromise(transaction.objectStore(ENTRIES).get(id) as IDBRequest<HistoryEntry | undefined>),
+      requestToPromise(transaction.objectStore(FILES).get(id) as IDBRequest<HistoryFiles | undefined>),
+    ]);
+    if (!entry || !files) throw new Error('This project is no longer in the history.');
+
+    const [image, mask, settings] = await Promise.all([
+      loadImageData(files.image),
+      blobToMask(files.mask),
+      restoreSettings(entry.settings, files),
+    ]);
+    const source = new File([files.source], entry.filename, { type: files.source.type });
+    return {
+      entry: { ...entry, settings },
+      source,
+      prepared: files.prepared ? new File([files.prepared], entry.filename, { type: files.prepared.type }) : source,
+      result: {
+        image,
+        mask,
+        output: files.output ?? undefined,
+        cropped: files.cropped,
+        despilled: files.despilled ?? false,
+      },
+    };
+  }
+
+  // The stored cutout as a PNG
+  async loadImage(id: string): Promise<Blob> {
+    const db = await this.open();
+    const files = await requestToPromise(db.transaction(FILES).objectStore(FILES).get(id) as IDBRequest<HistoryFiles | undefined>);
+    if (!files) throw new Error('This project is no longer in the history.');
+    return files.image;
+  }
+
+  async delete(ids: string | string[]): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([ENTRIES, FILES], 'readwrite');
+    ([] as string[]).concat(ids).forEach(id => {
+      transaction.objectStore(ENTRIES).delete(id);
+      transaction.objectStore(FILES).delete(id);
+    });
+    await transactionDone(transaction);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([ENTRIES, FILES], 'readwrite');
+    transaction.objectStore(ENTRIES).clear();
+    transaction.objectStore(FILES).clear();
+    await transactionDone(transaction);
+  }
+
+  async estimateUsage(): Promise<StorageUsage | null> {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return quota > 0 ? { usage, quota } : null;
+  }
+
+  // Apply the retention policy; `keepId` (the entry just saved) is never purged.
+  // All entries of a batch run count as one project toward maxEntries, so a
+  // large batch doesn't push out the rest of the history.
+  async purge(keepId?: string): Promise<number> {
+    const entries = await this.list();
+    const cutoff = Date.now() - this.policy.maxAgeDays * DAY_MS;
+    const projects = new Map<string, number>();
+    entries.forEach(entry => {
+      const project = entry.batchId ?? entry.id;
+      if (!projects.has(project)) projects.set(project, projects.size);
+    });
+    const expired = entries.filter(entry => (
+      entry.id !== keepId &&
+      (projects.get(entry.batchId ?? entry.id)! >= this.policy.maxEntries || entry.updatedAt < cutoff)
+    ));
+    const remaining = entries.filter(entry => !expired.includes(entry));
+
+    // Still too close to the quota: drop the oldest until under it
+    const estimate = await this.estimateUsage();
+    if (estimate) {
+      let usage = estimate.usage - expired.reduce((sum, entry) => sum + entry.size, 0);
+      for (let i = remaining.length - 1; i >= 0 && usage > estimate.quota * this.policy.maxUsage; i--) {
+        if (remaining[i].id === keepId) continue;
+        usage -= remaining[i].size;
+        expired.push(remaining[i]);
+      }
+    }
+
+    if (expired.length > 0) await this.delete(expired.map(entry => entry.id));
+    return expired.length;
+  }
+}
@@ -0,0 +1,109 @@
+// Helpers for moving pixels between blobs, canvases and plain RGBA buffers
+import { canvasToBlob } from './download';
+
+// RGBA pixels, four bytes per pixel (structurally compatible with ImageData)
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// Alpha matte, one byte per pixel (0 = background, 255 = foreground)
+export interface AlphaMask {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// Decode a blob, optionally resampling it to the given size
+export async function loadImageData(source: Blob, width?: number, height?: number): Promise<ImageData> {
+  const bitmap = await createImageBitmap(source);
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = width ?? bitmap.width;
+    canvas.height = height ?? bitmap.height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+  } finally {
+    bitmap.close();
+  }
+}
+
+export function toImageData(raster: RasterImage): ImageData {
+  if (raster instanceof ImageData) return raster;
+  return new ImageData(new Uint8ClampedArray(raster.data), raster.width, raster.height);
+}
+
+export function rasterToCanvas(raster: RasterImage): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = raster.width;
+  canvas.height = raster.height;
+  canvas.getContext('2d')!.putImageData(toImageData(raster), 0, 0);
+  return canvas;
+}
+
+export function rasterToBlob(raster: RasterImage, type = 'image/png', quality?: number): Promise<Blob> {
+  return canvasToBlob(rasterToCanvas(raster), type, quality);
+}
+
+export async function rasterToObjectUrl(raster: RasterImage): Promise<string> {
+  return URL.createObjectURL(await rasterToBlob(raster));
+}
+
+export function extractAlpha(raster: RasterImage): AlphaMask {
+  const mask = new Uint8ClampedArray(raster.width * raster.height);
+  for (let i = 0; i < mask.length; i++) {
+    mask[i] = raster.data[i * 4 + 3];
+  }
+  return { width: raster.width, height: raster.height, data: mask };
+}
+
+// Masks are stored as the alpha channel of a PNG, which survives the canvas round trip exactly
+export function maskToBlob(mask: AlphaMask): Promise<Blob> {
+  const data = new Uint8ClampedArray(mask.width * mask.height * 4);
+  for (let i = 0; i < mask.data.length; i++) {
+    data[i * 4 + 3] = mask.data[i];
+  }
+  return rasterToBlob({ width: mask.width, height: mask.height, data });
+}
+
+export async function blobToMask(blob: Blob): Promise<AlphaMask> {
+  return extractAlpha(await loadImageData(blob));
+}
+
+// Combine RGB from `source` with the given alpha matte
+export function applyMask(source: RasterImage, mask: AlphaMask): RasterImage {
+  const data = new Uint8ClampedArray(source.data);
+  for (let i = 0; i < mask.data.length; i++) {
+    data[i * 4 + 3] = mask.data[i];
+  }
+  return { width: source.width, height: source.height, data };
+}
+
+export interface PixelBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Bounding box of pixels whose alpha exceeds `threshold`, or null if the mask is empty
+export function alphaBounds(mask: AlphaMask, threshold = 8): PixelBounds | null {
+  let minX = mask.width;
+  let minY = mask.height;
+  let maxX = -1;
+  let maxY = -1;
+  for (let y = 0; y < mask.height; y++) {
+    for (let x = 0; x < mask.width; x++) {
+      if (mask.data[y * mask.width + x] > threshold) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  if (maxX < 0) return null;
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
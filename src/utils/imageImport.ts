@@ -0,0 +1,109 @@
+// Image sources besides the file picker: URLs, the clipboard and images dragged
+// in from other browser tabs
+import { isZipFile } from './batchArchive';
+import { extensionForType, isImageFile } from './preprocess';
+
+export interface ImportOptions {
+  // Photoroom proxy, used to fetch images from sites that don't allow CORS
+  proxyUrl?: string;
+  signal?: AbortSignal;
+}
+
+export interface DroppedImages {
+  files: File[];
+  // Image addresses, when the browser hands over a link instead of the file
+  urls: string[];
+}
+
+function fileNameFromUrl(url: string, type: string): string {
+  const extension = extensionForType(type);
+  try {
+    const { pathname, protocol } = new URL(url);
+    const last = protocol === 'data:' ? '' : decodeURIComponent(pathname.split('/').pop() ?? '');
+    if (last) return /\.[a-z0-9]+$/i.test(last) ? last : `${last}.${extension}`;
+  } catch {
+    // Not a parseable URL; fall through to the generic name
+  }
+  return `image.${extension}`;
+}
+
+async function responseToFile(response: Response, url: string): Promise<File> {
+  const blob = await response.blob();
+  const type = blob.type.split(';')[0] || response.headers.get('content-type')?.split(';')[0] || '';
+  if (!type.startsWith('image/')) throw new Error('The address does not point to an image.');
+  return new File([blob], fileNameFromUrl(url, type), { type });
+}
+
+async function proxyErrorMessage(response: Response): Promise<string> {
+  const body = await response.json().catch(() => null) as { message?: string } | null;
+  return body?.message ? `${body.message}.` : `The proxy could not fetch the image (HTTP ${response.status}).`;
+}
+
+// Fetches directly when the site allows it (CORS), otherwise through the proxy
+export async function fetchImageFromUrl(url: string, options: ImportOptions = {}): Promise<File> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new Error('Enter a full image address, starting with https://');
+  }
+  if (!['http:', 'https:', 'data:', 'blob:'].includes(parsed.protocol)) {
+    throw new Error('Only http(s) and data: addresses can be imported.');
+  }
+
+  let direct: Response | null = null;
+  try {
+    direct = await fetch(parsed.href, { mode: 'cors', signal: options.signal });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') throw error;
+    // A TypeError here usually means the site sends no CORS headers
+  }
+  if (direct?.ok) return responseToFile(direct, parsed.href);
+  if (direct && direct.status !== 0) throw new Error(`The site answered with HTTP ${direct.status}.`);
+
+  if (!options.proxyUrl || parsed.protocol === 'data:' || parsed.protocol === 'blob:') {
+    throw new Error('This site does not let other pages load its images. Save the image and upload the file instead.');
+  }
+  const proxied = await fetch(`${options.proxyUrl.replace(/\/+$/, '')}/v1/fetch?url=${encodeURIComponent(parsed.href)}`, {
+    signal: options.signal,
+  });
+  if (!proxied.ok) throw new Error(await proxyErrorMessage(proxied));
+  return responseToFile(proxied, parsed.href);
+}
+
+// <img src="..."> from dragged or copied HTML
+function imageSourcesFromHtml(html: string): string[] {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return Array.from(doc.images).map(image => image.getAttribute('src') ?? '').filter(Boolean);
+}
+
+function isImportableUrl(text: string): boolean {
+  return /^(https?:|data:image\/)/i.test(text.trim());
+}
+
+// Files (images and ZIPs) if the browser provides them, otherwise the dragged
+// image's address
+export function imagesFromDataTransfer(data: DataTransfer): DroppedImages {
+  const files = Array.from(data.files).filter(file => isImageFile(file) || isZipFile(file));
+  if (files.length > 0) return { files, urls: [] };
+
+  const html = data.getData('text/html');
+  const fromHtml = html ? imageSourcesFromHtml(html) : [];
+  const fromList = data.getData('text/uri-list')
+    .split(/\r?\n/)
+    .filter(line => line && !line.startsWith('#'));
+  const text = data.getData('text/plain');
+  // An <img> in the HTML is the image itself; a uri-list entry may be the link around it
+  const urls = [...fromHtml, ...fromList, ...(text ? [text] : [])].filter(isImportableUrl);
+  return { files: [], urls: urls.slice(0, 1) };
+}
+
+export function isClipboardWriteSupported(): boolean {
+  return typeof ClipboardItem !== 'undefined' && !!navigator.clipboard?.write;
+}
+
+// Takes the PNG as a promise so the browser still counts the click as the
+// user gesture while the image is being encoded (Safari requires this)
+export async function copyImageToClipboard(png: Promise<Blob>): Promise<void> {
+  await navigator.clipboard.write([new ClipboardItem({ 'image/png': png })]);
+}
@@ -0,0 +1,135 @@
+// Trims the subject to its alpha bounds and places it on a target canvas
+import type { PixelBounds } from './imageData';
+import type { CompositionSources } from './compositor';
+
+export type Alignment = 'start' | 'center' | 'end';
+
+export interface LayoutSpec {
+  // Canvas width / height; null keeps the trimmed subject's proportions
+  aspectRatio: number | null;
+  // Longer canvas side in pixels; null keeps the subject's resolution
+  size: number | null;
+  // Margin around the subject in percent of the shorter canvas side
+  padding: number;
+  horizontalAlign: Alignment;
+  verticalAlign: Alignment;
+}
+
+export interface LayoutPreset {
+  id: string;
+  name: string;
+  layout: LayoutSpec;
+}
+
+export const LAYOUT_PRESETS: LayoutPreset[] = [
+  {
+    id: 'trim',
+    name: 'Trim to subject',
+    layout: { aspectRatio: null, size: null, padding: 0, horizontalAlign: 'center', verticalAlign: 'center' },
+  },
+  {
+    id: 'square-2000',
+    name: 'Square 2000×2000',
+    layout: { aspectRatio: 1, size: 2000, padding: 5, horizontalAlign: 'center', verticalAlign: 'center' },
+  },
+  {
+    id: 'social-4-5',
+    name: 'Social 4:5',
+    layout: { aspectRatio: 4 / 5, size: 1350, padding: 8, horizontalAlign: 'center', verticalAlign: 'center' },
+  },
+  {
+    // 35×45 mm at 300 dpi, shoulders resting on the bottom edge
+    id: 'passport',
+    name: 'Passport 35×45 mm',
+    layout: { aspectRatio: 35 / 45, size: 531, padding: 0, horizontalAlign: 'center', verticalAlign: 'end' },
+  },
+];
+
+export const LAYOUT_ASPECT_RATIOS: { label: string; value: number | null }[] = [
+  { label: 'Free', value: null },
+  { label: '1:1', value: 1 },
+  { label: '4:5', value: 4 / 5 },
+  { label: '3:4', value: 3 / 4 },
+  { label: '2:3', value: 2 / 3 },
+  { label: '16:9', value: 16 / 9 },
+  { label: '9:16', value: 9 / 16 },
+  { label: '35:45', value: 35 / 45 },
+];
+
+export interface LayoutResult {
+  width: number;
+  height: number;
+  // Region of the subject image to keep
+  source: PixelBounds;
+  // Where that region lands on the output canvas
+  dest: PixelBounds;
+}
+
+function alignOffset(free: number, alignment: Alignment): number {
+  if (alignment === 'start') return 0;
+  if (alignment === 'end') return free;
+  return free / 2;
+}
+
+export function computeLayout(source: PixelBounds, spec: LayoutSpec): LayoutResult {
+  const padding = Math.min(Math.max(spec.padding, 0), 45) / 100;
+  let width: number;
+  let height: number;
+
+  // Smallest canvas that fits the subject at 1:1 inside the margins
+  if (spec.aspectRatio === null) {
+    const margin = (padding * Math.min(source.width, source.height)) / (1 - 2 * padding);
+    width = source.width + margin * 2;
+    height = source.height + margin * 2;
+  } else {
+    const ratio = spec.aspectRatio;
+    const shorter = Math.min(ratio, 1);
+    height = Math.max(source.width / (ratio - 2 * padding * shorter), source.height / (1 - 2 * padding * shorter));
+    width = height * ratio;
+  }
+
+  if (spec.size !== null) {
+    const scale = spec.size / Math.max(width, height);
+    width *= scale;
+    height *= scale;
+  }
+  width = Math.max(1, Math.round(width));
+  height = Math.max(1, Math.round(height));
+
+  const margin = padding * Math.min(width, height);
+  const areaWidth = width - margin * 2;
+  const areaHeight = height - margin * 2;
+  const scale = Math.min(areaWidth / source.width, areaHeight / source.height);
+  const destWidth = source.width * scale;
+  const destHeight = source.height * scale;
+
+  return {
+    width,
+    height,
+    source,
+    dest: {
+      x: margin + alignOffset(areaWidth - destWidth, spec.horizontalAlign),
+      y: margin + alignOffset(areaHeight - destHeight, spec.verticalAlign),
+      width: destWidth,
+      height: destHeight,
+    },
+  };
+}
+
+// Re-lay the subject for the compositor. The original photo is left as is;
+// the blur background covers whatever canvas it ends up on.
+export function layoutSources(sources: CompositionSources, spec: LayoutSpec): CompositionSources {
+  const { subject } = sources;
+  const bounds = sources.bounds ?? { x: 0, y: 0, width: subject.width, height: subject.height };
+  const layout = computeLayout(bounds, spec);
+  const { source, dest } = layout;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = layout.width;
+  canvas.height = layout.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(subject, source.x, source.y, source.width, source.height, dest.x, dest.y, dest.width, dest.height);
+
+  return { ...sources, subject: canvas, bounds: dest };
+}
@@ -0,0 +1,148 @@
+import type { AlphaMask, RasterImage } from './imageData';
+import type { PipelineStage } from './segmentationFilters';
+import type { SegmentationOptions } from './segmentationOptions';
+import type { SegmentationSeeds } from './graphCut';
+import type { ChromaKeyOptions } from './chromaKey';
+
+export type LocalSegmentationMode = 'pipeline' | 'center' | 'graphcut' | 'chromakey';
+
+export type LocalSegmentationStage = 'decode' | PipelineStage | 'graphcut' | 'chromakey' | 'despill';
+
+// Messages exchanged with localSegmentation.worker.ts
+export type LocalSegmentRequest =
+  | {
+      type: 'segment';
+      id: number;
+      mode: LocalSegmentationMode;
+      bitmap: ImageBitmap;
+      options?: SegmentationOptions;
+      seeds?: SegmentationSeeds;
+      chromaKey?: ChromaKeyOptions;
+      maxDimension?: number;
+    }
+  | { type: 'cancel'; id: number };
+
+export type LocalSegmentResponse =
+  | { type: 'progress'; id: number; stage: LocalSegmentationStage }
+  | { type: 'result'; id: number; width: number; height: number; pixels: ArrayBuffer; mask: ArrayBuffer }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; message: string };
+
+export const LOCAL_STAGE_LABELS: Record<LocalSegmentationStage, string> = {
+  decode: 'Decoding image...',
+  segmentation: 'Segmenting colors...',
+  morphology: 'Cleaning up the mask...',
+  refinement: 'Refining edges...',
+  graphcut: 'Solving graph cut from your selection...',
+  chromakey: 'Keying out the screen color...',
+  despill: 'Suppressing color spill...',
+};
+
+export interface LocalSegmentOptions {
+  mode?: LocalSegmentationMode;
+  options?: SegmentationOptions;
+  // Box and scribbles for the graph cut mode
+  seeds?: SegmentationSeeds;
+  // Key color and ranges for the chroma key mode
+  chromaKey?: ChromaKeyOptions;
+  // Downscale so the longest side fits, e.g. for quick previews
+  maxDimension?: number;
+  signal?: AbortSignal;
+  onProgress?: (stage: LocalSegmentationStage) => void;
+}
+
+interface PendingRequest {
+  resolve: (result: { image: RasterImage; mask: AlphaMask }) => void;
+  reject: (error: Error) => void;
+  onProgress?: (stage: LocalSegmentationStage) => void;
+}
+
+// Runs the local pixel pipeline in a Web Worker, off the UI thread
+export class LocalSegmenter {
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 0;
+
+  async segment(source: Blob, options: LocalSegmentOptions = {}): Promise<{ image: RasterImage; mask: AlphaMask }> {
+    const { mode = 'pipeline', signal, onProgress, maxDimension } = options;
+    const cancelled = () => new DOMException('Segmentation cancelled', 'AbortError');
+    if (signal?.aborted) throw cancelled();
+
+    const bitmap = await createImageBitmap(source);
+    if (signal?.aborted) {
+      bitmap.close();
+      throw cancelled();
+    }
+
+    const worker = this.getWorker();
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject, onProgress });
+
+      signal?.addEventListener('abort', () => {
+        if (this.pending.delete(id)) {
+          worker.postMessage({ type: 'cancel', id } satisfies LocalSegmentRequest);
+          reject(cancelled());
+        }
+      }, { once: true });
+
+      const request: LocalSegmentRequest = {
+        type: 'segment',
+        id,
+        mode,
+        bitmap,
+        options: options.options,
+        seeds: options.seeds,
+        chromaKey: options.chromaKey,
+        maxDimension,
+      };
+      worker.postMessage(request, [bitmap]);
+    });
+  }
+
+  dispose() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.pending.forEach(request => request.reject(new Error('Segmenter disposed')));
+    this.pending.clear();
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/localSegmentation.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.addEventListener('message', (event: MessageEvent<LocalSegmentResponse>) => this.handleMessage(event.data));
+      this.worker.addEventListener('error', (event) => {
+        const error = new Error(event.message || 'Segmentation worker crashed');
+        this.pending.forEach(request => request.reject(error));
+        this.pending.clear();
+        this.worker?.terminate();
+        this.worker = null;
+      });
+    }
+    return this.worker;
+  }
+
+  private handleMessage(message: LocalSegmentResponse) {
+    const request = this.pending.get(message.id);
+    if (!request) return;
+
+    if (message.type === 'progress') {
+      request.onProgress?.(message.stage);
+      return;
+    }
+
+    this.pending.delete(message.id);
+    if (message.type === 'result') {
+      const { width, height } = message;
+      request.resolve({
+        image: { width, height, data: new Uint8ClampedArray(message.pixels) },
+        mask: { width, height, data: new Uint8ClampedArray(message.mask) },
+      });
+    } else if (message.type === 'cancelled') {
+      request.reject(new DOMException('Segmentation cancelled', 'AbortError'));
+    } else {
+      request.reject(new Error(message.message));
+    }
+  }
+}
@@ -0,0 +1,78 @@
+// Brush painting on alpha masks for manual refinement
+import type { AlphaMask } from './imageData';
+
+export type BrushMode = 'keep' | 'erase';
+
+export interface BrushSettings {
+  mode: BrushMode;
+  // Radius in mask pixels
+  radius: number;
+  // 0 = fully feathered, 1 = hard edge
+  hardness: number;
+}
+
+export interface MaskRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export function unionRect(a: MaskRect | null, b: MaskRect | null): MaskRect | null {
+  if (!a) return b;
+  if (!b) return a;
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+}
+
+// Paint a single round dab; returns the rectangle that changed
+export function paintDab(mask: AlphaMask, cx: number, cy: number, brush: BrushSettings): MaskRect | null {
+  const { width, height, data } = mask;
+  const radius = Math.max(0.5, brush.radius);
+  const hardness = Math.min(1, Math.max(0, brush.hardness));
+  const target = brush.mode === 'keep' ? 255 : 0;
+
+  const x0 = Math.max(0, Math.floor(cx - radius));
+  const y0 = Math.max(0, Math.floor(cy - radius));
+  const x1 = Math.min(width - 1, Math.ceil(cx + radius));
+  const y1 = Math.min(height - 1, Math.ceil(cy + radius));
+  if (x0 > x1 || y0 > y1) return null;
+
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      const t = Math.sqrt((x + 0.5 - cx) ** 2 + (y + 0.5 - cy) ** 2) / radius;
+      if (t > 1) continue;
+
+      const strength = t <= hardness ? 1 : 1 - (t - hardness) / (1 - hardness);
+      const index = y * width + x;
+      data[index] = data[index] + (target - data[index]) * strength;
+    }
+  }
+
+  return { x: x0, y: y0, width: x1 - x0 + 1, height: y1 - y0 + 1 };
+}
+
+// Paint dabs along a line segment, spaced at a fraction of the radius
+export function paintStroke(
+  mask: AlphaMask,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  brush: BrushSettings
+): MaskRect | null {
+  const distance = Math.hypot(to.x - from.x, to.y - from.y);
+  const spacing = Math.max(1, brush.radius * 0.25);
+  const steps = Math.max(1, Math.ceil(distance / spacing));
+
+  let dirty: MaskRect | null = null;
+  for (let i = 1; i <= steps; i++) {
+    const t = i / steps;
+    dirty = unionRect(dirty, paintDab(mask, from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t, brush));
+  }
+  return dirty;
+}
@@ -0,0 +1,81 @@
+// Undo/redo history for alpha mask edits, stored as rectangular patches
+import type { AlphaMask } from './imageData';
+import type { MaskRect } from './maskBrush';
+
+interface MaskPatch {
+  rect: MaskRect;
+  before: Uint8ClampedArray;
+  after: Uint8ClampedArray;
+}
+
+function readRect(mask: AlphaMask, rect: MaskRect): Uint8ClampedArray {
+  const patch = new Uint8ClampedArray(rect.width * rect.height);
+  for (let row = 0; row < rect.height; row++) {
+    const start = (rect.y + row) * mask.width + rect.x;
+    patch.set(mask.data.subarray(start, start + rect.width), row * rect.width);
+  }
+  return patch;
+}
+
+function writeRect(mask: AlphaMask, rect: MaskRect, patch: Uint8ClampedArray) {
+  for (let row = 0; row < rect.height; row++) {
+    mask.data.set(patch.subarray(row * rect.width, (row + 1) * rect.width), (rect.y + row) * mask.width + rect.x);
+  }
+}
+
+export class MaskHistory {
+  readonly mask: AlphaMask;
+  private undoStack: MaskPatch[] = [];
+  private redoStack: MaskPatch[] = [];
+  private strokeStart: Uint8ClampedArray | null = null;
+  private limit: number;
+
+  constructor(initial: AlphaMask, limit = 50) {
+    this.mask = { width: initial.width, height: initial.height, data: new Uint8ClampedArray(initial.data) };
+    this.limit = limit;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  // Snapshot the mask before a stroke so the changed region can be recorded
+  beginStroke() {
+    this.strokeStart = new Uint8ClampedArray(this.mask.data);
+  }
+
+  endStroke(dirty: MaskRect | null) {
+    const start = this.strokeStart;
+    this.strokeStart = null;
+    if (!start || !dirty) return;
+
+    const before = readRect({ ...this.mask, data: start }, dirty);
+    const after = readRect(this.mask, dirty);
+    this.undoStack.push({ rect: dirty, before, after });
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  // Returns the restored rectangle, or null when there is nothing to undo
+  undo(): MaskRect | null {
+    const patch = this.undoStack.pop();
+    if (!patch) return null;
+    writeRect(this.mask, patch.rect, patch.before);
+    this.redoStack.push(patch);
+    return patch.rect;
+  }
+
+  redo(): MaskRect | null {
+    const patch = this.redoStack.pop();
+    if (!patch) return null;
+    writeRect(this.mask, patch.rect, patch.after);
+    this.undoStack.push(patch);
+    return patch.rect;
+  }
+}
@@ -0,0 +1,123 @@
+import type { AlphaMask, RasterImage } from './imageData';
+import type { SegmentationModel } from './segmentationModels';
+
+// Messages exchanged with onnxSegmentation.worker.ts
+export interface SegmentRequest {
+  type: 'segment';
+  id: number;
+  model: SegmentationModel;
+  width: number;
+  height: number;
+  pixels: ArrayBuffer;
+}
+
+export type SegmentResponse =
+  | { type: 'progress'; id: number; stage: 'loading-model' | 'inference' }
+  | { type: 'result'; id: number; mask: ArrayBuffer }
+  | { type: 'error'; id: number; message: string };
+
+interface PendingRequest {
+  image: RasterImage;
+  resolve: (mask: AlphaMask) => void;
+  reject: (error: Error) => void;
+  onProgress?: (stage: 'loading-model' | 'inference') => void;
+}
+
+// Runs an ONNX matting model on the CPU (WASM) inside a Web Worker
+export class OnnxSegmenter {
+  private model: SegmentationModel;
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 0;
+
+  constructor(model: SegmentationModel) {
+    this.model = model;
+  }
+
+  segment(
+    image: RasterImage,
+    options: { signal?: AbortSignal; onProgress?: PendingRequest['onProgress'] } = {}
+  ): Promise<AlphaMask> {
+    const { signal, onProgress } = options;
+    if (signal?.aborted) {
+      return Promise.reject(new DOMException('Segmentation cancelled', 'AbortError'));
+    }
+
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { image, resolve, reject, onProgress });
+
+      signal?.addEventListener('abort', () => {
+        if (this.pending.delete(id)) {
+          reject(new DOMException('Segmentation cancelled', 'AbortError'));
+          this.restartWorker();
+        }
+      }, { once: true });
+
+      this.post(id, image);
+    });
+  }
+
+  // Inference can't be interrupted inside the worker, so a cancelled run
+  // stops the whole worker. Requests still waiting on it are sent to a fresh
+  // one, which loads the model again.
+  private restartWorker() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.pending.forEach((request, id) => this.post(id, request.image));
+  }
+
+  private post(id: number, image: RasterImage) {
+    // Copy so the caller keeps its pixels after the buffer is transferred
+    const pixels = new Uint8ClampedArray(image.data).buffer;
+    const request: SegmentRequest = {
+      type: 'segment',
+      id,
+      model: this.model,
+      width: image.width,
+      height: image.height,
+      pixels,
+    };
+    this.getWorker().postMessage(request, [pixels]);
+  }
+
+  dispose() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.pending.forEach(request => request.reject(new Error('Segmenter disposed')));
+    this.pending.clear();
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/onnxSegmentation.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.addEventListener('message', (event: MessageEvent<SegmentResponse>) => this.handleMessage(event.data));
+      this.worker.addEventListener('error', (event) => {
+        const error = new Error(event.message || 'Segmentation worker crashed');
+        this.pending.forEach(request => request.reject(error));
+        this.pending.clear();
+        this.worker?.terminate();
+        this.worker = null;
+      });
+    }
+    return this.worker;
+  }
+
+  private handleMessage(message: SegmentResponse) {
+    const request = this.pending.get(message.id);
+    if (!request) return;
+
+    if (message.type === 'progress') {
+      request.onProgress?.(message.stage);
+      return;
+    }
+
+    this.pending.delete(message.id);
+    if (message.type === 'error') {
+      request.reject(new Error(message.message));
+    } else {
+      request.resolve({ width: request.image.width, height: request.image.height, data: new Uint8ClampedArray(message.mask) });
+    }
+  }
+}
@@ -1,43 +1,226 @@
+import { ApiKeyError, errorFromResponse, networkError, PhotoroomError, timeoutError } from './photoroomErrors';
+import { extensionForType } from './preprocess';
+
+export const PHOTOROOM_API_URL = 'https://sdk.photoroom.com';
+// The account endpoint lives on the Image Editing API host, not the segmentation one
+export const PHOTOROOM_ACCOUNT_URL = 'https://image-api.photoroom.com/v1/account';
+
+export interface PhotoroomAPIOptions {
+  // Photoroom itself, or a proxy that holds the key server-side (see server/)
+  baseUrl?: string;
+}
+
+export type PhotoroomFormat = 'png' | 'jpg' | 'webp';
+
+// Output resolution: preview ≈ 0.25 MP, medium ≈ 1.5 MP, hd ≈ 4 MP, full = up to 36 MP
+export type PhotoroomSize = 'preview' | 'medium' | 'hd' | 'full';
+
+// Parameters of the /v1/segment endpoint besides the image itself
+export interface SegmentOptions {
+  format: PhotoroomFormat;
+  // 'alpha' returns only the matte as a grayscale image
+  channels: 'rgba' | 'alpha';
+  // Hex color or HTML color name; null keeps the background transparent
+  bgColor: string | null;
+  size: PhotoroomSize;
+  // Crop the output to the subject's bounding box
+  crop: boolean;
+}
+
+export const DEFAULT_SEGMENT_OPTIONS: SegmentOptions = {
+  format: 'png',
+  channels: 'rgba',
+  bgColor: null,
+  size: 'full',
+  crop: false,
+};
+
+export interface PhotoroomRequestOptions {
+  signal?: AbortSignal;
+  // Per attempt, including reading the response
+  timeoutMs?: number;
+  // Extra attempts after rate limits, network errors, timeouts and 5xx responses
+  maxRetries?: number;
+  onRetry?: (retry: { attempt: number; delayMs: number; error: PhotoroomError }) => void;
+}
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30_000;
+// Fail instead of waiting when the server asks for a longer pause than this
+const MAX_RETRY_AFTER_MS = 60_000;
+
+function cancelledError() {
+  return new DOMException('Photoroom request cancelled', 'AbortError');
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelledError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Exponential backoff with jitter, or the server's Retry-After; null means don't retry
+function retryDelay(error: PhotoroomError, attempt: number): number | null {
+  if (error.retryAfter !== undefined) {
+    const delay = error.retryAfter * 1000;
+    return delay > MAX_RETRY_AFTER_MS ? null : delay;
+  }
+  const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
 export class PhotoroomAPI {
   private apiKey: string;
-  private baseUrl = 'https://sdk.photoroom.com/v1/segment';
+  private baseUrl: string;
 
-  constructor(apiKey: string) {
+  constructor(apiKey = '', options: PhotoroomAPIOptions = {}) {
     this.apiKey = apiKey;
+    this.baseUrl = (options.baseUrl || PHOTOROOM_API_URL).replace(/\/+$/, '');
   }
 
-  async removeBackground(imageFile: File): Promise<string> {
-    const formData = new FormData();
-    formData.append('image_file', imageFile);
-    formData.append('format', 'PNG');
+  // A proxy adds its own key, so the browser doesn't need one
+  isProxied(): boolean {
+    return this.baseUrl !== PHOTOROOM_API_URL;
+  }
+
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  setApiKey(apiKey: string) {
+    this.apiKey = apiKey.trim();
+  }
+
+  hasApiKey(): boolean {
+    return this.apiKey.length > 0;
+  }
+
+  // One attempt: fetch and read the body under a timeout
+  private async attempt<T>(
+    url: string,
+    init: RequestInit,
+    timeoutMs: number,
+    signal: AbortSignal | undefined,
+    read: (response: Response) => Promise<T>
+  ): Promise<T> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort);
 
     try {
-      const response = await fetch(this.baseUrl, {
-        method: 'POST',
-        headers: {
-          'X-Api-Key': this.apiKey,
-        },
-        body: formData,
-      });
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      if (!response.ok) throw await errorFromResponse(response);
+      return await read(response);
+    } catch (error) {
+      if (error instanceof PhotoroomError) throw error;
+      if (timedOut) throw timeoutError(Math.round(timeoutMs / 1000));
+      if (signal?.aborted) throw cancelledError();
+      throw networkError();
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Photoroom API error: ${response.status} - ${errorText}`);
+  private async request<T>(
+    url: string,
+    init: RequestInit,
+    options: PhotoroomRequestOptions,
+    read: (response: Response) => Promise<T>
+  ): Promise<T> {
+    const { signal, timeoutMs = DEFAULT_TIMEOUT_MS, maxRetries = DEFAULT_MAX_RETRIES, onRetry } = options;
+
+    for (let attempt = 0; ; attempt++) {
+      if (signal?.aborted) throw cancelledError();
+      try {
+        return await this.attempt(url, init, timeoutMs, signal, read);
+      } catch (error) {
+        if (!(error instanceof PhotoroomError) || !error.retryable || attempt >= maxRetries) throw error;
+        const delayMs = retryDelay(error, attempt);
+        if (delayMs === null) throw error;
+        onRetry?.({ attempt: attempt + 1, delayMs, error });
+        await sleep(delayMs, signal);
       }
+    }
+  }
 
-      const blob = await response.blob();
-      return URL.createObjectURL(blob);
+  // Checks a key against the account endpoint without spending credits.
+  // Resolves false only when Photoroom rejects the key; anything inconclusive
+  // (offline, CORS, 5xx) throws. Not available through a proxy, which has no
+  // account route and ignores the key.
+  async validateApiKey(apiKey = this.apiKey, options: PhotoroomRequestOptions = {}): Promise<boolean> {
+    if (this.isProxied()) throw new Error('Requests go through a proxy, which holds its own key.');
+    if (!apiKey.trim()) throw new ApiKeyError('missing');
+
+    try {
+      await this.request(PHOTOROOM_ACCOUNT_URL, {
+        headers: {
+          'X-Api-Key': apiKey.trim(),
+        },
+      }, { maxRetries: 1, ...options }, async () => undefined);
+      return true;
     } catch (error) {
-      console.error('Photoroom API error:', error);
-      throw new Error('Failed to process image with Photoroom API');
+      if (error instanceof ApiKeyError) return false;
+      throw error;
     }
   }
 
-  async removeBackgroundFromDataUrl(dataUrl: string): Promise<string> {
-    // Convert data URL to File
+  async removeBackground(
+    imageFile: File,
+    segment: Partial<SegmentOptions> = {},
+    options: PhotoroomRequestOptions = {}
+  ): Promise<string> {
+    const blob = await this.removeBackgroundToBlob(imageFile, segment, options);
+    return URL.createObjectURL(blob);
+  }
+
+  async removeBackgroundToBlob(
+    imageFile: File,
+    segment: Partial<SegmentOptions> = {},
+    options: PhotoroomRequestOptions = {}
+  ): Promise<Blob> {
+    if (!this.isProxied() && !this.hasApiKey()) throw new ApiKeyError('missing');
+
+    const { format, channels, bgColor, size, crop } = { ...DEFAULT_SEGMENT_OPTIONS, ...segment };
+    const formData = new FormData();
+    formData.append('image_file', imageFile);
+    formData.append('format', format);
+    formData.append('channels', channels);
+    formData.append('size', size);
+    if (bgColor) formData.append('bg_color', bgColor);
+    if (crop) formData.append('crop', 'true');
+
+    return this.request(`${this.baseUrl}/v1/segment`, {
+      method: 'POST',
+      headers: this.isProxied() ? {} : {
+        'X-Api-Key': this.apiKey,
+      },
+      body: formData,
+    }, options, response => response.blob());
+  }
+
+  async removeBackgroundFromDataUrl(dataUrl: string, filename = 'image'): Promise<string> {
+    // Convert data URL to File, keeping its real type
     const response = await fetch(dataUrl);
     const blob = await response.blob();
-    const file = new File([blob], 'image.jpg', { type: blob.type });
+    const base = filename.replace(/\.[^.]+$/, '');
+    const file = new File([blob], `${base}.${extensionForType(blob.type)}`, { type: blob.type });
     
     return this.removeBackground(file);
   }
@@ -0,0 +1,111 @@
+// Typed failures from the Photoroom API (or the proxy in front of it).
+// Messages are written for end users; status and body are kept for logging.
+
+export type PhotoroomErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'rate-limit'
+  | 'payload-too-large'
+  | 'unsupported-format'
+  | 'network'
+  | 'timeout'
+  | 'server'
+  | 'unknown';
+
+export interface PhotoroomErrorDetails {
+  status?: number;
+  body?: string;
+  // Seconds the server asked us to wait
+  retryAfter?: number;
+}
+
+const RETRYABLE_KINDS: PhotoroomErrorKind[] = ['rate-limit', 'network', 'timeout', 'server'];
+
+export class PhotoroomError extends Error {
+  readonly kind: PhotoroomErrorKind;
+  readonly status?: number;
+  readonly body?: string;
+  readonly retryAfter?: number;
+
+  constructor(kind: PhotoroomErrorKind, message: string, details: PhotoroomErrorDetails = {}) {
+    super(message);
+    this.name = 'PhotoroomError';
+    this.kind = kind;
+    this.status = details.status;
+    this.body = details.body;
+    this.retryAfter = details.retryAfter;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+export type ApiKeyErrorReason = 'missing' | 'invalid';
+
+export class ApiKeyError extends PhotoroomError {
+  readonly reason: ApiKeyErrorReason;
+
+  constructor(reason: ApiKeyErrorReason, details: PhotoroomErrorDetails = {}) {
+    super('auth', reason === 'missing'
+      ? 'No Photoroom API key is configured. Add one in API key settings.'
+      : 'The Photoroom API key was rejected. Check it in API key settings.', details);
+    this.name = 'ApiKeyError';
+    this.reason = reason;
+  }
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - now) / 1000));
+}
+
+function formatWait(seconds: number): string {
+  if (seconds < 90) return `${Math.max(1, Math.round(seconds))} seconds`;
+  if (seconds < 90 * 60) return `${Math.round(seconds / 60)} minutes`;
+  return `${Math.round(seconds / 3600)} hours`;
+}
+
+export async function errorFromResponse(response: Response): Promise<PhotoroomError> {
+  const status = response.status;
+  const body = await response.text().catch(() => '');
+  const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+  const details = { status, body, retryAfter };
+
+  if (status === 401 || status === 403) {
+    return new ApiKeyError('invalid', details);
+  }
+  // The proxy reports its daily quota as a 429 with this code
+  if (status === 402 || body.includes('quota_exceeded')) {
+    return new PhotoroomError('quota', retryAfter
+      ? `The Photoroom quota is used up. It resets in about ${formatWait(retryAfter)}; until then, try an on-device model.`
+      : 'Your Photoroom credits are used up. Top up the account or switch to an on-device model.', details);
+  }
+  if (status === 429) {
+    return new PhotoroomError('rate-limit', retryAfter
+      ? `Photoroom is receiving too many requests. Try again in ${formatWait(retryAfter)}.`
+      : 'Photoroom is receiving too many requests. Wait a moment and try again.', details);
+  }
+  if (status === 413) {
+    return new PhotoroomError('payload-too-large', 'This image is too large for Photoroom. Use a smaller image or downscale it first.', details);
+  }
+  if (status === 415 || (status === 400 && /format|unsupported|decode|image_file/i.test(body))) {
+    return new PhotoroomError('unsupported-format', "Photoroom can't read this file. Use a JPG, PNG or WebP image.", details);
+  }
+  if (status >= 500) {
+    return new PhotoroomError('server', `Photoroom had a problem processing the image (error ${status}). Try again in a moment.`, details);
+  }
+  return new PhotoroomError('unknown', `Photoroom returned an unexpected error (${status}).`, details);
+}
+
+export function networkError(): PhotoroomError {
+  return new PhotoroomError('network', 'Could not reach Photoroom. Check your internet connection or use an on-device model.');
+}
+
+export function timeoutError(seconds: number): PhotoroomError {
+  return new PhotoroomError('timeout', `Photoroom did not respond within ${seconds} seconds. Try again or use a smaller image.`);
+}
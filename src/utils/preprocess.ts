@@ -0,0 +1,191 @@
+// Prepares uploads before they reach a provider: bakes in EXIF orientation,
+// downscales oversized photos and converts formats the APIs don't accept.
+import { canvasToBlob } from './download';
+
+export interface PreprocessOptions {
+  // Longer side limit in pixels; null never downscales
+  maxDimension: number | null;
+  // Used when re-encoding JPEG and WebP
+  quality: number;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxDimension: 4096,
+  quality: 0.92,
+};
+
+export const MAX_DIMENSION_CHOICES: (number | null)[] = [2048, 3000, 4096, 6000, null];
+
+export interface PreprocessResult {
+  file: File;
+  originalSize: number;
+  originalType: string;
+  originalWidth: number;
+  originalHeight: number;
+  width: number;
+  height: number;
+  resized: boolean;
+  rotated: boolean;
+  converted: boolean;
+}
+
+// Formats every provider accepts as-is
+const UPLOAD_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Formats we try to decode and convert; whether it works depends on the browser
+const CONVERTIBLE_EXTENSIONS: Record<string, string> = {
+  heic: 'image/heic',
+  heif: 'image/heif',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  bmp: 'image/bmp',
+  avif: 'image/avif',
+  gif: 'image/gif',
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+export const IMAGE_ACCEPT = ['image/*', ...Object.keys(CONVERTIBLE_EXTENSIONS).map(ext => `.${ext}`)].join(',');
+
+function extensionOf(name: string): string {
+  return name.split('.').pop()?.toLowerCase() ?? '';
+}
+
+// Browsers often leave `type` empty for HEIC and TIFF
+function mimeTypeOf(file: File): string {
+  return file.type || CONVERTIBLE_EXTENSIONS[extensionOf(file.name)] || '';
+}
+
+export function isImageFile(file: File): boolean {
+  return mimeTypeOf(file).startsWith('image/');
+}
+
+// MIME type implied by a file name, for files that arrive without one (e.g. unpacked from a ZIP)
+export function imageTypeForName(name: string): string {
+  const extension = extensionOf(name);
+  if (extension === 'jpeg') return 'image/jpeg';
+  return Object.keys(EXTENSIONS).find(type => EXTENSIONS[type] === extension) ?? CONVERTIBLE_EXTENSIONS[extension] ?? '';
+}
+
+export function extensionForType(type: string): string {
+  return EXTENSIONS[type] ?? type.replace('image/', '');
+}
+
+// EXIF orientation (1–8) from a JPEG's APP1 segment, 1 when absent
+export async function readExifOrientation(file: Blob): Promise<number> {
+  const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // APP1 with "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, little);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+      return 1;
+    }
+    // Start of scan: no more metadata
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) return 1;
+    offset += 2 + length;
+  }
+  return 1;
+}
+
+function renamed(name: string, type: string): string {
+  const base = name.replace(/\.[^.]+$/, '') || 'image';
+  return `${base}.${extensionForType(type)}`;
+}
+
+export async function preprocessImage(
+  file: File,
+  options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS
+): Promise<PreprocessResult> {
+  const originalType = mimeTypeOf(file);
+  const orientation = originalType === 'image/jpeg' ? await readExifOrientation(file) : 1;
+
+  let bitmap: ImageBitmap;
+  try {
+    // Decoding applies the EXIF rotation for us
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    const label = extensionOf(file.name).toUpperCase() || originalType || 'this';
+    throw new Error(`This browser can't decode ${label} images. Convert the file to JPG or PNG first.`);
+  }
+
+  try {
+    const originalWidth = bitmap.width;
+    const originalHeight = bitmap.height;
+    const scale = options.maxDimension
+      ? Math.min(1, options.maxDimension / Math.max(originalWidth, originalHeight))
+      : 1;
+    const width = Math.max(1, Math.round(originalWidth * scale));
+    const height = Math.max(1, Math.round(originalHeight * scale));
+
+    const resized = scale < 1;
+    const rotated = orientation > 1;
+    const converted = !UPLOAD_TYPES.includes(originalType);
+    const summary = { originalSize: file.size, originalType, originalWidth, originalHeight, resized, rotated, converted };
+
+    if (!resized && !rotated && !converted) {
+      return { ...summary, file, width, height };
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, width, height);
+
+    // Keep the uploaded type when we can; converted formats become PNG to preserve any alpha
+    const type = converted ? 'image/png' : originalType;
+    const blob = await canvasToBlob(canvas, type, type === 'image/png' ? undefined : options.quality);
+    const name = converted ? renamed(file.name, type) : file.name;
+    return {
+      ...summary,
+      file: new File([blob], name, { type, lastModified: file.lastModified }),
+      width,
+      height,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// One-line summary for the UI, or null when the file went through untouched
+export function describePreprocess(result: PreprocessResult): string | null {
+  const steps: string[] = [];
+  if (result.converted) steps.push(`converted ${extensionForType(result.originalType).toUpperCase()} to ${extensionForType(result.file.type).toUpperCase()}`);
+  if (result.rotated) steps.push('applied EXIF rotation');
+  if (result.resized) steps.push(`resized ${result.originalWidth}×${result.originalHeight} → ${result.width}×${result.height}`);
+  if (steps.length === 0) return null;
+
+  const saved = result.originalSize - result.file.size;
+  const size = saved > 0
+    ? `${formatBytes(result.originalSize)} → ${formatBytes(result.file.size)}, saved ${Math.round((saved / result.originalSize) * 100)}%`
+    : `${formatBytes(result.file.size)}`;
+  const text = steps.join(', ');
+  return `${text.charAt(0).toUpperCase()}${text.slice(1)} (${size})`;
+}
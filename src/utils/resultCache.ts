@@ -0,0 +1,172 @@
+// Stores provider results in IndexedDB, keyed by a SHA-256 of the image bytes plus the
+// provider and its options, so repeat requests don't spend API credits again.
+// Least recently used results are evicted once the cache outgrows its size cap.
+import type { RemovalResult } from '../providers';
+import { blobToMask, loadImageData, maskToBlob, rasterToBlob } from './imageData';
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+
+const DB_NAME = 'removebg-cache';
+const DB_VERSION = 1;
+const RESULTS = 'results';
+const MB = 1024 * 1024;
+
+export const CACHE_SIZE_CHOICES = [50 * MB, 200 * MB, 500 * MB, 1024 * MB];
+export const DEFAULT_CACHE_SIZE = 200 * MB;
+
+interface CachedResult {
+  key: string;
+  providerId: string;
+  createdAt: number;
+  lastUsed: number;
+  size: number;
+  image: Blob;
+  mask: Blob;
+  output: { blob: Blob; extension: string } | null;
+  cropped: boolean;
+  // Missing in entries cached before spill suppression existed
+  despilled?: boolean;
+}
+
+export interface CacheStats {
+  entries: number;
+  size: number;
+}
+
+export async function hashBlob(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export class ResultCache {
+  private maxBytes: number;
+  private db: Promise<IDBDatabase> | null = null;
+  private listeners = new Set<() => void>();
+
+  constructor(maxBytes = DEFAULT_CACHE_SIZE) {
+    this.maxBytes = maxBytes;
+  }
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined' && !!crypto.subtle;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        db.createObjectStore(RESULTS, { keyPath: 'key' });
+      });
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  // Called whenever entries are added or removed
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  getMaxBytes(): number {
+    return this.maxBytes;
+  }
+
+  async setMaxBytes(maxBytes: number): Promise<void> {
+    this.maxBytes = maxBytes;
+    await this.evict();
+  }
+
+  async keyFor(file: Blob, providerId: string, options: string): Promise<string> {
+    return `${providerId}:${await hashBlob(file)}:${options}`;
+  }
+
+  async get(key: string): Promise<RemovalResult | null> {
+    const db = await this.open();
+    const entry = await requestToPromise(db.transaction(RESULTS).objectStore(RESULTS).get(key) as IDBRequest<CachedResult | undefined>);
+    if (!entry) return null;
+
+    const [image, mask] = await Promise.all([loadImageData(entry.image), blobToMask(entry.mask)]);
+    const transaction = db.transaction(RESULTS, 'readwrite');
+    transaction.objectStore(RESULTS).put({ ...entry, lastUsed: Date.now() });
+    await transactionDone(transaction);
+
+    return { image, mask, output: entry.output ?? undefined, cropped: entry.cropped, despilled: entry.despilled ?? false, cached: true };
+  }
+
+  async put(key: string, providerId: string, result: RemovalResult): Promise<void> {
+    const [image, mask] = await Promise.all([rasterToBlob(result.image), maskToBlob(result.mask)]);
+    const output = result.output ?? null;
+    const now = Date.now();
+    const entry: CachedResult = {
+      key,
+      providerId,
+      createdAt: now,
+      lastUsed: now,
+      size: image.size + mask.size + (output?.blob.size ?? 0),
+      image,
+      mask,
+      output,
+      cropped: result.cropped ?? false,
+      despilled: result.despilled ?? false,
+    };
+
+    const db = await this.open();
+    const transaction = db.transaction(RESULTS, 'readwrite');
+    transaction.objectStore(RESULTS).put(entry);
+    await transactionDone(transaction);
+    await this.evict();
+    this.notify();
+  }
+
+  async stats(): Promise<CacheStats> {
+    const entries = await this.entries();
+    return { entries: entries.length, size: entries.reduce((sum, entry) => sum + entry.size, 0) };
+  }
+
+  // Drop everything, or only one provider's results
+  async clear(providerId?: string): Promise<void> {
+    const db = await this.open();
+    if (providerId) {
+      const keys = (await this.entries()).filter(entry => entry.providerId === providerId).map(entry => entry.key);
+      await this.delete(keys);
+    } else {
+      const transaction = db.transaction(RESULTS, 'readwrite');
+      transaction.objectStore(RESULTS).clear();
+      await transactionDone(transaction);
+    }
+    this.notify();
+  }
+
+  private async entries(): Promise<CachedResult[]> {
+    const db = await this.open();
+    return requestToPromise(db.transaction(RESULTS).objectStore(RESULTS).getAll() as IDBRequest<CachedResult[]>);
+  }
+
+  private async delete(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    const db = await this.open();
+    const transaction = db.transaction(RESULTS, 'readwrite');
+    keys.forEach(key => transaction.objectStore(RESULTS).delete(key));
+    await transactionDone(transaction);
+  }
+
+  private async evict(): Promise<void> {
+    const entries = (await this.entries()).sort((a, b) => a.lastUsed - b.lastUsed);
+    let size = entries.reduce((sum, entry) => sum + entry.size, 0);
+    const evicted: string[] = [];
+    for (const entry of entries) {
+      if (size <= this.maxBytes) break;
+      size -= entry.size;
+      evicted.push(entry.key);
+    }
+    await this.delete(evicted);
+    if (evicted.length > 0) this.notify();
+  }
+}
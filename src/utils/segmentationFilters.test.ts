@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { AlphaMask, RasterImage } from './imageData';
+import { colorSegmentation, detectEdges, refineEdges } from './segmentationFilters';
+
+// Solid background with a square of another color in the middle
+function squareImage(size: number, square: [number, number], background: number[], foreground: number[]): RasterImage {
+  const data = new Uint8ClampedArray(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const inside = x >= square[0] && x < square[1] && y >= square[0] && y < square[1];
+      data.set([...(inside ? foreground : background), 255], (y * size + x) * 4);
+    }
+  }
+  return { width: size, height: size, data };
+}
+
+describe('detectEdges', () => {
+  it('is zero on flat areas and strongest on the square outline', () => {
+    const image = squareImage(12, [4, 8], [0, 0, 0], [255, 255, 255]);
+    const edges = detectEdges(image);
+    expect(edges).toHaveLength(144);
+    expect(edges[1 * 12 + 1]).toBe(0);
+    expect(edges[6 * 12 + 6]).toBe(0);
+    // Just outside and just inside the left side of the square
+    expect(edges[6 * 12 + 3]).toBeCloseTo(4 * 255);
+    expect(edges[6 * 12 + 4]).toBeCloseTo(4 * 255);
+  });
+
+  it('leaves the one-pixel border at zero', () => {
+    const image = squareImage(6, [0, 3], [0, 0, 0], [255, 255, 255]);
+    const edges = detectEdges(image);
+    for (let i = 0; i < 6; i++) {
+      expect(edges[i]).toBe(0);
+      expect(edges[i * 6]).toBe(0);
+    }
+  });
+});
+
+describe('colorSegmentation', () => {
+  const options = { quantizationStep: 32, backgroundColorCount: 1, colorDistanceThreshold: 40 };
+
+  it('keys out the border color and keeps the subject', () => {
+    const image = squareImage(10, [3, 7], [250, 250, 250], [200, 20, 20]);
+    const mask = colorSegmentation(image, options);
+    expect(mask.data[0]).toBe(0);
+    expect(mask.data[5 * 10 + 5]).toBe(255);
+    expect(mask.data.filter(alpha => alpha === 255)).toHaveLength(16);
+  });
+
+  it('treats colors within the threshold of the background as background', () => {
+    const image = squareImage(10, [3, 7], [250, 250, 250], [235, 235, 235]);
+    expect(colorSegmentation(image, options).data.every(alpha => alpha === 0)).toBe(true);
+  });
+});
+
+describe('refineEdges', () => {
+  function halfMask(size: number): AlphaMask {
+    const data = new Uint8ClampedArray(size * size);
+    for (let y = 0; y < size; y++) data.fill(255, y * size, y * size + size / 2);
+    return { width: size, height: size, data };
+  }
+
+  it('softens a hard edge without touching flat areas', () => {
+    const mask = halfMask(10);
+    const refined = refineEdges(mask, { blurRadius: 2 });
+    const row = Array.from(refined.data.slice(5 * 10, 6 * 10));
+    expect(row[2]).toBe(255);
+    expect(row[7]).toBe(0);
+    expect(row[4]).toBeGreaterThan(0);
+    expect(row[4]).toBeLessThan(255);
+    expect(row[5]).toBeGreaterThan(0);
+    expect(row[4]).toBeGreaterThan(row[5]);
+  });
+
+  it('returns a copy when the radius is zero', () => {
+    const mask = halfMask(4);
+    const refined = refineEdges(mask, { blurRadius: 0 });
+    expect(refined.data).toEqual(mask.data);
+    expect(refined.data).not.toBe(mask.data);
+  });
+});
@@ -0,0 +1,207 @@
+// Pure pixel filters for the local segmentation pipeline.
+// They only touch typed arrays, so they run in workers and under Node alike.
+import type { AlphaMask, RasterImage } from './imageData';
+import { DEFAULT_SEGMENTATION_OPTIONS, SegmentationOptions } from './segmentationOptions';
+
+export type PipelineStage = 'segmentation' | 'morphology' | 'refinement';
+
+// Edge detection using Sobel operator; returns one gradient magnitude per pixel
+export function detectEdges(image: RasterImage): Float32Array {
+  const { data, width, height } = image;
+  const magnitudes = new Float32Array(width * height);
+
+  const sobelX = [-1, 0, 1, -2, 0, 2, -1, 0, 1];
+  const sobelY = [-1, -2, -1, 0, 0, 0, 1, 2, 1];
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      let pixelX = 0;
+      let pixelY = 0;
+
+      for (let i = 0; i < 9; i++) {
+        const xOffset = (i % 3) - 1;
+        const yOffset = Math.floor(i / 3) - 1;
+        const pixelIndex = ((y + yOffset) * width + (x + xOffset)) * 4;
+
+        const gray = (data[pixelIndex] + data[pixelIndex + 1] + data[pixelIndex + 2]) / 3;
+        pixelX += gray * sobelX[i];
+        pixelY += gray * sobelY[i];
+      }
+
+      magnitudes[y * width + x] = Math.sqrt(pixelX * pixelX + pixelY * pixelY);
+    }
+  }
+
+  return magnitudes;
+}
+
+// Color-based segmentation: pixels close to the dominant border colors become background
+export function colorSegmentation(
+  image: RasterImage,
+  options: Pick<SegmentationOptions, 'quantizationStep' | 'backgroundColorCount' | 'colorDistanceThreshold'> = DEFAULT_SEGMENTATION_OPTIONS
+): AlphaMask {
+  const { data, width, height } = image;
+  const { quantizationStep, backgroundColorCount, colorDistanceThreshold } = options;
+  const mask = new Uint8ClampedArray(width * height);
+  const quantize = (value: number) => Math.floor(value / quantizationStep) * quantizationStep;
+
+  // Sample edge pixels
+  const edgeColorCounts = new Map<string, number>();
+  const countEdgePixel = (pixelIndex: number) => {
+    const i = pixelIndex * 4;
+    const colorKey = `${quantize(data[i])},${quantize(data[i + 1])},${quantize(data[i + 2])}`;
+    edgeColorCounts.set(colorKey, (edgeColorCounts.get(colorKey) ?? 0) + 1);
+  };
+  for (let x = 0; x < width; x++) {
+    countEdgePixel(x); // Top edge
+    countEdgePixel((height - 1) * width + x); // Bottom edge
+  }
+  for (let y = 0; y < height; y++) {
+    countEdgePixel(y * width); // Left edge
+    countEdgePixel(y * width + (width - 1)); // Right edge
+  }
+
+  // Get most common edge colors as background
+  const backgroundColors = Array.from(edgeColorCounts.entries())
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, backgroundColorCount)
+    .map(([color]) => color.split(',').map(Number));
+
+  // Create mask based on color similarity
+  for (let p = 0; p < mask.length; p++) {
+    const r = quantize(data[p * 4]);
+    const g = quantize(data[p * 4 + 1]);
+    const b = quantize(data[p * 4 + 2]);
+
+    const isBackground = backgroundColors.some(([bgR, bgG, bgB]) => (
+      Math.sqrt((r - bgR) ** 2 + (g - bgG) ** 2 + (b - bgB) ** 2) < colorDistanceThreshold
+    ));
+
+    mask[p] = isBackground ? 0 : 255;
+  }
+
+  return { width, height, data: mask };
+}
+
+// Erosion followed by dilation (opening) with a square kernel to remove speckles
+export function morphologicalOperations(
+  mask: AlphaMask,
+  options: Pick<SegmentationOptions, 'morphologyKernelSize' | 'morphologyPasses'> = DEFAULT_SEGMENTATION_OPTIONS
+): AlphaMask {
+  const { width, height } = mask;
+  const radius = Math.max(0, Math.floor(options.morphologyKernelSize / 2));
+  let current = new Uint8ClampedArray(mask.data);
+  if (radius === 0) return { width, height, data: current };
+
+  for (let pass = 0; pass < options.morphologyPasses; pass++) {
+    // Erosion; pixels closer than `radius` to the border become background
+    const eroded = new Uint8ClampedArray(current.length);
+    for (let y = radius; y < height - radius; y++) {
+      for (let x = radius; x < width - radius; x++) {
+        let minAlpha = 255;
+        for (let ky = -radius; ky <= radius; ky++) {
+          for (let kx = -radius; kx <= radius; kx++) {
+            minAlpha = Math.min(minAlpha, current[(y + ky) * width + (x + kx)]);
+          }
+        }
+        eroded[y * width + x] = minAlpha;
+      }
+    }
+
+    // Dilation
+    const dilated = new Uint8ClampedArray(eroded);
+    for (let y = radius; y < height - radius; y++) {
+      for (let x = radius; x < width - radius; x++) {
+        let maxAlpha = 0;
+        for (let ky = -radius; ky <= radius; ky++) {
+          for (let kx = -radius; kx <= radius; kx++) {
+            maxAlpha = Math.max(maxAlpha, eroded[(y + ky) * width + (x + kx)]);
+          }
+        }
+        dilated[y * width + x] = maxAlpha;
+      }
+    }
+
+    current = dilated;
+  }
+
+  return { width, height, data: current };
+}
+
+// Gaussian blur of the mask for smoother edges
+export function refineEdges(
+  mask: AlphaMask,
+  options: Pick<SegmentationOptions, 'blurRadius'> = DEFAULT_SEGMENTATION_OPTIONS
+): AlphaMask {
+  const { width, height } = mask;
+  const refined = new Uint8ClampedArray(mask.data);
+  const { blurRadius } = options;
+  if (blurRadius <= 0) return { width, height, data: refined };
+
+  for (let y = blurRadius; y < height - blurRadius; y++) {
+    for (let x = blurRadius; x < width - blurRadius; x++) {
+      let alphaSum = 0;
+      let weightSum = 0;
+
+      for (let dy = -blurRadius; dy <= blurRadius; dy++) {
+        for (let dx = -blurRadius; dx <= blurRadius; dx++) {
+          const distance = Math.sqrt(dx * dx + dy * dy);
+          if (distance <= blurRadius) {
+            const weight = Math.exp(-(distance * distance) / (2 * blurRadius * blurRadius));
+            alphaSum += mask.data[(y + dy) * width + (x + dx)] * weight;
+            weightSum += weight;
+          }
+        }
+      }
+
+      refined[y * width + x] = Math.round(alphaSum / weightSum);
+    }
+  }
+
+  return { width, height, data: refined };
+}
+
+// Center-focused mask that keeps the middle of the frame (simulating subject detection)
+export function centerFocusMask(width: number, height: number): AlphaMask {
+  const mask = new Uint8ClampedArray(width * height);
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const maxDistance = Math.sqrt(centerX * centerX + centerY * centerY);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const normalizedDistance = Math.sqrt((x - centerX) ** 2 + (y - centerY) ** 2) / maxDistance;
+      let alpha = 255;
+
+      // Fade out towards the corners
+      if (normalizedDistance > 0.6) {
+        alpha = Math.max(0, 255 * (1 - (normalizedDistance - 0.6) / 0.4));
+      }
+
+      // Suppress a thin frame around the border
+      if (x < 10 || x > width - 10 || y < 10 || y > height - 10) {
+        alpha = Math.min(alpha, 50);
+      }
+
+      mask[y * width + x] = alpha;
+    }
+  }
+
+  return { width, height, data: mask };
+}
+
+// Full segmentation pipeline; `onStage` fires before each stage starts
+export function runSegmentationPipeline(
+  image: RasterImage,
+  options: SegmentationOptions = DEFAULT_SEGMENTATION_OPTIONS,
+  onStage?: (stage: PipelineStage) => void
+): AlphaMask {
+  onStage?.('segmentation');
+  const segmented = colorSegmentation(image, options);
+
+  onStage?.('morphology');
+  const morphed = morphologicalOperations(segmented, options);
+
+  onStage?.('refinement');
+  return refineEdges(morphed, options);
+}
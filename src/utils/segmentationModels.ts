@@ -0,0 +1,37 @@
+// Matting/segmentation models that can run in the browser through ONNX Runtime
+export interface SegmentationModel {
+  id: string;
+  name: string;
+  url: string;
+  // Square input resolution the model was trained on
+  inputSize: number;
+  mean: [number, number, number];
+  std: [number, number, number];
+  // Stretch the raw output to the full 0..1 range (U²-Net style saliency maps)
+  normalizeOutput: boolean;
+}
+
+const MODEL_BASE_URL = import.meta.env.VITE_SEGMENTATION_MODEL_BASE_URL ?? '/models';
+
+export const SEGMENTATION_MODELS: Record<string, SegmentationModel> = {
+  u2netp: {
+    id: 'u2netp',
+    name: 'U²-Net (portable)',
+    url: `${MODEL_BASE_URL}/u2netp.onnx`,
+    inputSize: 320,
+    mean: [0.485, 0.456, 0.406],
+    std: [0.229, 0.224, 0.225],
+    normalizeOutput: true,
+  },
+  modnet: {
+    id: 'modnet',
+    name: 'MODNet',
+    url: `${MODEL_BASE_URL}/modnet.onnx`,
+    inputSize: 512,
+    mean: [0.5, 0.5, 0.5],
+    std: [0.5, 0.5, 0.5],
+    normalizeOutput: false,
+  },
+};
+
+export const DEFAULT_SEGMENTATION_MODEL = SEGMENTATION_MODELS[import.meta.env.VITE_SEGMENTATION_MODEL ?? 'u2netp'] ?? SEGMENTATION_MODELS.u2netp;
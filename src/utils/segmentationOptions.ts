@@ -0,0 +1,84 @@
+// Tunable parameters for the local color segmentation pipeline
+export interface SegmentationOptions {
+  // Color quantization bucket size (higher = coarser color matching)
+  quantizationStep: number;
+  // How many of the most common border colors count as background
+  backgroundColorCount: number;
+  // Max RGB distance from a background color for a pixel to be removed
+  colorDistanceThreshold: number;
+  // Side of the square morphology kernel (1 disables cleanup)
+  morphologyKernelSize: number;
+  // Number of opening passes (erosion followed by dilation)
+  morphologyPasses: number;
+  // Gaussian blur radius applied to the mask edges (0 keeps hard edges)
+  blurRadius: number;
+}
+
+export const DEFAULT_SEGMENTATION_OPTIONS: SegmentationOptions = {
+  quantizationStep: 32,
+  backgroundColorCount: 3,
+  colorDistanceThreshold: 80,
+  morphologyKernelSize: 3,
+  morphologyPasses: 1,
+  blurRadius: 2,
+};
+
+export interface SegmentationPreset {
+  id: string;
+  name: string;
+  options: SegmentationOptions;
+}
+
+export const SEGMENTATION_PRESETS: SegmentationPreset[] = [
+  {
+    id: 'default',
+    name: 'Balanced',
+    options: DEFAULT_SEGMENTATION_OPTIONS,
+  },
+  {
+    id: 'product-white',
+    name: 'Product on white',
+    options: {
+      quantizationStep: 16,
+      backgroundColorCount: 2,
+      colorDistanceThreshold: 48,
+      morphologyKernelSize: 3,
+      morphologyPasses: 1,
+      blurRadius: 1,
+    },
+  },
+  {
+    id: 'portrait',
+    name: 'Portrait',
+    options: {
+      quantizationStep: 32,
+      backgroundColorCount: 4,
+      colorDistanceThreshold: 80,
+      morphologyKernelSize: 5,
+      morphologyPasses: 2,
+      blurRadius: 3,
+    },
+  },
+  {
+    id: 'high-contrast',
+    name: 'High contrast',
+    options: {
+      quantizationStep: 64,
+      backgroundColorCount: 2,
+      colorDistanceThreshold: 110,
+      morphologyKernelSize: 3,
+      morphologyPasses: 1,
+      blurRadius: 1,
+    },
+  },
+];
+
+// Slider ranges for each option, used by the settings panel
+export const SEGMENTATION_OPTION_RANGES: Record<keyof SegmentationOptions, { label: string; min: number; max: number; step: number }> = {
+  quantizationStep: { label: 'Color quantization', min: 8, max: 64, step: 8 },
+  backgroundColorCount: { label: 'Background colors', min: 1, max: 8, step: 1 },
+  colorDistanceThreshold: { label: 'Color tolerance', min: 0, max: 200, step: 4 },
+  morphologyKernelSize: { label: 'Cleanup kernel', min: 1, max: 9, step: 2 },
+  morphologyPasses: { label: 'Cleanup passes', min: 0, max: 3, step: 1 },
+  blurRadius: { label: 'Edge softness', min: 0, max: 6, step: 1 },
+};
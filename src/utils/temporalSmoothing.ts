@@ -0,0 +1,66 @@
+// Temporal mask smoothing for animations: each frame's matte is blended with the
+// previous smoothed matte so that edges stop flickering between frames. Pixels
+// whose color changed noticeably since the last frame keep their own matte,
+// which keeps moving subjects from leaving ghost trails behind.
+import type { AlphaMask, RasterImage } from './imageData';
+
+export interface TemporalSmoothingOptions {
+  // 0 = off, 1 = maximum weight on the previous frame
+  strength: number;
+  // Per-pixel color difference (0–255) above which a pixel counts as moving
+  motionThreshold: number;
+}
+
+export const DEFAULT_TEMPORAL_SMOOTHING: TemporalSmoothingOptions = {
+  strength: 0.6,
+  motionThreshold: 24,
+};
+
+// Never trust the previous frame entirely, or a static scene could never change
+const MAX_HISTORY_WEIGHT = 0.85;
+
+export class MaskSmoother {
+  private previousMask: Float32Array | null = null;
+  private previousFrame: RasterImage | null = null;
+
+  constructor(private options: TemporalSmoothingOptions = DEFAULT_TEMPORAL_SMOOTHING) {}
+
+  reset() {
+    this.previousMask = null;
+    this.previousFrame = null;
+  }
+
+  // `frame` is the source image the mask was computed from
+  smooth(mask: AlphaMask, frame: RasterImage): AlphaMask {
+    const weight = Math.min(1, Math.max(0, this.options.strength)) * MAX_HISTORY_WEIGHT;
+    const previousMask = this.previousMask;
+    const previousFrame = this.previousFrame;
+    const current = new Float32Array(mask.data.length);
+
+    const comparable = previousMask && previousFrame &&
+      previousMask.length === mask.data.length &&
+      previousFrame.width === frame.width && previousFrame.height === frame.height;
+
+    for (let i = 0; i < current.length; i++) {
+      const value = mask.data[i];
+      if (!comparable || weight === 0) {
+        current[i] = value;
+        continue;
+      }
+      const p = i * 4;
+      const motion = Math.max(
+        Math.abs(frame.data[p] - previousFrame.data[p]),
+        Math.abs(frame.data[p + 1] - previousFrame.data[p + 1]),
+        Math.abs(frame.data[p + 2] - previousFrame.data[p + 2])
+      );
+      // Fade the history out as motion approaches twice the threshold
+      const stillness = Math.max(0, Math.min(1, 2 - motion / this.options.motionThreshold));
+      const history = weight * stillness;
+      current[i] = previousMask[i] * history + value * (1 - history);
+    }
+
+    this.previousMask = current;
+    this.previousFrame = frame;
+    return { width: mask.width, height: mask.height, data: Uint8ClampedArray.from(current) };
+  }
+}
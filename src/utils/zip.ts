@@ -0,0 +1,275 @@
+// Minimal ZIP support. Archives are written with stored entries (no compression):
+// images are already compressed. Reading handles stored and deflated entries.
+// Both directions work entry by entry on Blobs and streams, so an archive never
+// has to fit in memory as a whole.
+import { crc32 } from './crc32';
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+  lastModified?: Date;
+}
+
+// An entry of an archive being read; `blob()` extracts it on demand
+export interface ZipFileEntry {
+  name: string;
+  size: number;
+  directory: boolean;
+  lastModified: Date;
+  blob(): Promise<Blob>;
+}
+
+// Bit 11: names are UTF-8
+const UTF8_FLAG = 0x0800;
+const ENCRYPTED_FLAG = 0x0001;
+const VERSION = 20;
+const STORED = 0;
+const DEFLATED = 8;
+const MAX_SIZE = 0xffffffff;
+// End of central directory record plus the longest possible comment
+const MAX_END_RECORD_SIZE = 22 + 0xffff;
+
+// MS-DOS date and time fields
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function fromDosDateTime(time: number, date: number): Date {
+  return new Date(1980 + (date >> 9), ((date >> 5) & 15) - 1, date & 31, time >> 11, (time >> 5) & 63, (time & 31) * 2);
+}
+
+interface EntryRecord {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  modified: Date;
+  offset: number;
+}
+
+function localHeader(entry: EntryRecord): Uint8Array {
+  const { time, date } = dosDateTime(entry.modified);
+  const header = new DataView(new ArrayBuffer(30));
+  header.setUint32(0, 0x04034b50, true);
+  header.setUint16(4, VERSION, true);
+  header.setUint16(6, UTF8_FLAG, true);
+  header.setUint16(8, STORED, true);
+  header.setUint16(10, time, true);
+  header.setUint16(12, date, true);
+  header.setUint32(14, entry.crc, true);
+  header.setUint32(18, entry.size, true);
+  header.setUint32(22, entry.size, true);
+  header.setUint16(26, entry.name.length, true);
+  header.setUint16(28, 0, true);
+  return concatBytes(new Uint8Array(header.buffer), entry.name);
+}
+
+function centralHeader(entry: EntryRecord): Uint8Array {
+  const { time, date } = dosDateTime(entry.modified);
+  const header = new DataView(new ArrayBuffer(46));
+  header.setUint32(0, 0x02014b50, true);
+  header.setUint16(4, VERSION, true);
+  header.setUint16(6, VERSION, true);
+  header.setUint16(8, UTF8_FLAG, true);
+  header.setUint16(10, STORED, true);
+  header.setUint16(12, time, true);
+  header.setUint16(14, date, true);
+  header.setUint32(16, entry.crc, true);
+  header.setUint32(20, entry.size, true);
+  header.setUint32(24, entry.size, true);
+  header.setUint16(28, entry.name.length, true);
+  header.setUint32(42, entry.offset, true);
+  return concatBytes(new Uint8Array(header.buffer), entry.name);
+}
+
+function endRecord(count: number, centralSize: number, centralOffset: number): Uint8Array {
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, count, true);
+  end.setUint16(10, count, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, centralOffset, true);
+  return new Uint8Array(end.buffer);
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a);
+  out.set(b, a.length);
+  return out;
+}
+
+function tooLargeError() {
+  return new Error('ZIP archives larger than 4 GB are not supported.');
+}
+
+export function createZip(entries: ZipEntry[]): Blob {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const record: EntryRecord = {
+      name: encoder.encode(entry.name),
+      crc: crc32(entry.data),
+      size: entry.data.length,
+      modified: entry.lastModified ?? new Date(),
+      offset,
+    };
+    const header = localHeader(record);
+    parts.push(header, entry.data);
+    central.push(centralHeader(record));
+    offset += header.length + entry.data.length;
+  });
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  return new Blob([...parts, ...central, endRecord(entries.length, centralSize, offset)], { type: 'application/zip' });
+}
+
+async function blobCrc32(blob: Blob): Promise<number> {
+  const reader = blob.stream().getReader();
+  let crc = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return crc;
+    crc = crc32(value, crc);
+  }
+}
+
+// Writes an archive to a stream one entry at a time. Each entry is read twice,
+// once for its checksum and once to copy it, so no entry is held in memory and
+// the local headers carry real sizes (which more unzip tools understand than
+// trailing data descriptors).
+export class ZipWriter {
+  private writer: WritableStreamDefaultWriter<Uint8Array>;
+  private encoder = new TextEncoder();
+  private entries: EntryRecord[] = [];
+  private offset = 0;
+
+  constructor(stream: WritableStream<Uint8Array>) {
+    this.writer = stream.getWriter();
+  }
+
+  private async write(data: Uint8Array) {
+    if (this.offset + data.length > MAX_SIZE) throw tooLargeError();
+    await this.writer.write(data);
+    this.offset += data.length;
+  }
+
+  async add(name: string, data: Blob | Uint8Array, lastModified = new Date()) {
+    const blob = data instanceof Blob ? data : new Blob([data]);
+    const record: EntryRecord = {
+      name: this.encoder.encode(name),
+      crc: data instanceof Blob ? await blobCrc32(data) : crc32(data),
+      size: blob.size,
+      modified: lastModified,
+      offset: this.offset,
+    };
+    await this.write(localHeader(record));
+    const reader = blob.stream().getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      await this.write(value);
+    }
+    this.entries.push(record);
+  }
+
+  async close() {
+    const centralOffset = this.offset;
+    for (const entry of this.entries) {
+      await this.write(centralHeader(entry));
+    }
+    await this.write(endRecord(this.entries.length, this.offset - centralOffset, centralOffset));
+    await this.writer.close();
+  }
+
+  async abort(reason?: unknown) {
+    await this.writer.abort(reason);
+  }
+}
+
+// Collects a stream into Blob parts; browsers may keep large blobs on disk rather than in memory
+export function createBlobSink(type = 'application/zip'): { stream: WritableStream<Uint8Array>; result: () => Blob } {
+  const parts: Blob[] = [];
+  return {
+    stream: new WritableStream({
+      write(chunk) {
+        parts.push(new Blob([chunk]));
+      },
+    }),
+    result: () => new Blob(parts, { type }),
+  };
+}
+
+async function readBytes(blob: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await blob.slice(start, end).arrayBuffer());
+}
+
+// Lists the entries of an archive from its central directory, reading only the headers
+export async function readZip(archive: Blob): Promise<ZipFileEntry[]> {
+  const tailStart = Math.max(0, archive.size - MAX_END_RECORD_SIZE);
+  const tail = await readBytes(archive, tailStart, archive.size);
+  let endOffset = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === 0x06054b50) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset === -1) throw new Error('This file is not a ZIP archive, or it is damaged.');
+
+  const count = tail.getUint16(endOffset + 10, true);
+  const centralSize = tail.getUint32(endOffset + 12, true);
+  const centralOffset = tail.getUint32(endOffset + 16, true);
+  if (count === 0xffff || centralOffset === MAX_SIZE) {
+    throw new Error('ZIP64 archives are not supported. Split the archive into smaller ones.');
+  }
+
+  const central = await readBytes(archive, centralOffset, centralOffset + centralSize);
+  const decoder = new TextDecoder();
+  const entries: ZipFileEntry[] = [];
+  let position = 0;
+  for (let i = 0; i < count; i++) {
+    if (position + 46 > central.byteLength || central.getUint32(position, true) !== 0x02014b50) {
+      throw new Error('The ZIP archive is damaged.');
+    }
+    const flags = central.getUint16(position + 8, true);
+    const method = central.getUint16(position + 10, true);
+    const time = central.getUint16(position + 12, true);
+    const date = central.getUint16(position + 14, true);
+    const compressedSize = central.getUint32(position + 20, true);
+    const size = central.getUint32(position + 24, true);
+    const nameLength = central.getUint16(position + 28, true);
+    const extraLength = central.getUint16(position + 30, true);
+    const commentLength = central.getUint16(position + 32, true);
+    const localOffset = central.getUint32(position + 42, true);
+    const nameBytes = new Uint8Array(central.buffer, position + 46, nameLength);
+    // Names without the UTF-8 flag are nominally CP437, but in practice mostly ASCII or UTF-8
+    const name = decoder.decode(nameBytes);
+    position += 46 + nameLength + extraLength + commentLength;
+
+    entries.push({
+      name,
+      size,
+      directory: name.endsWith('/'),
+      lastModified: fromDosDateTime(time, date),
+      blob: async () => {
+        if (flags & ENCRYPTED_FLAG) throw new Error(`${name} is encrypted.`);
+        // The local header's name and extra field may differ in length from the central one
+        const local = await readBytes(archive, localOffset, localOffset + 30);
+        if (local.getUint32(0, true) !== 0x04034b50) throw new Error('The ZIP archive is damaged.');
+        const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+        const data = archive.slice(dataStart, dataStart + compressedSize);
+        if (method === STORED) return data;
+        if (method !== DEFLATED) throw new Error(`${name} uses an unsupported compression method.`);
+        const stream = data.stream().pipeThrough(new DecompressionStream('deflate-raw'));
+        return new Response(stream).blob();
+      },
+    });
+  }
+  return entries;
+}
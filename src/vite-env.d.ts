@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_PHOTOROOM_API_KEY?: string;
+  readonly VITE_PHOTOROOM_BASE_URL?: string;
+  readonly VITE_SEGMENTATION_MODEL?: string;
+  readonly VITE_SEGMENTATION_MODEL_BASE_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,44 @@
+// ImageDecoder (WebCodecs) is not in TypeScript's DOM library yet
+
+interface ImageDecoderInit {
+  type: string;
+  data: BufferSource | ReadableStream<Uint8Array>;
+  preferAnimation?: boolean;
+}
+
+interface ImageDecodeOptions {
+  frameIndex?: number;
+  completeFramesOnly?: boolean;
+}
+
+interface ImageDecodeResult {
+  image: VideoFrame;
+  complete: boolean;
+}
+
+interface ImageTrack {
+  readonly animated: boolean;
+  readonly frameCount: number;
+  readonly repetitionCount: number;
+  selected: boolean;
+}
+
+interface ImageTrackList {
+  readonly ready: Promise<void>;
+  readonly length: number;
+  readonly selectedIndex: number;
+  readonly selectedTrack: ImageTrack | null;
+  [index: number]: ImageTrack;
+}
+
+declare class ImageDecoder {
+  constructor(init: ImageDecoderInit);
+  readonly type: string;
+  readonly complete: boolean;
+  readonly completed: Promise<void>;
+  readonly tracks: ImageTrackList;
+  decode(options?: ImageDecodeOptions): Promise<ImageDecodeResult>;
+  reset(): void;
+  close(): void;
+  static isTypeSupported(type: string): Promise<boolean>;
+}
@@ -0,0 +1,111 @@
+import type { LocalSegmentRequest, LocalSegmentResponse } from '../utils/localSegmenter';
+import type { AlphaMask, RasterImage } from '../utils/imageData';
+import {
+  centerFocusMask,
+  colorSegmentation,
+  morphologicalOperations,
+  refineEdges,
+} from '../utils/segmentationFilters';
+import { DEFAULT_SEGMENTATION_OPTIONS } from '../utils/segmentationOptions';
+import { grabCut } from '../utils/graphCut';
+import { chromaKeyMask, DEFAULT_CHROMA_KEY_OPTIONS, suppressSpill } from '../utils/chromaKey';
+
+const active = new Set<number>();
+const cancelled = new Set<number>();
+
+function reply(message: LocalSegmentResponse, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer });
+}
+
+// Give queued cancel messages a chance to arrive between stages
+function yieldToEvents(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+function decode(bitmap: ImageBitmap, maxDimension?: number): RasterImage {
+  const scale = maxDimension ? Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height)) : 1;
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+async function segment(request: Extract<LocalSegmentRequest, { type: 'segment' }>) {
+  const { id } = request;
+  const isCancelled = () => cancelled.has(id);
+
+  reply({ type: 'progress', id, stage: 'decode' });
+  let image = decode(request.bitmap, request.maxDimension);
+  const options = request.options ?? DEFAULT_SEGMENTATION_OPTIONS;
+
+  let mask: AlphaMask;
+  if (request.mode === 'center') {
+    mask = centerFocusMask(image.width, image.height);
+  } else if (request.mode === 'graphcut') {
+    await yieldToEvents();
+    if (isCancelled()) {
+      reply({ type: 'cancelled', id });
+      return;
+    }
+    reply({ type: 'progress', id, stage: 'graphcut' });
+    mask = grabCut(image, request.seeds ?? { rect: null, strokes: [] });
+  } else if (request.mode === 'chromakey') {
+    const chromaKey = request.chromaKey ?? DEFAULT_CHROMA_KEY_OPTIONS;
+    reply({ type: 'progress', id, stage: 'chromakey' });
+    mask = chromaKeyMask(image, chromaKey);
+    await yieldToEvents();
+    if (isCancelled()) {
+      reply({ type: 'cancelled', id });
+      return;
+    }
+    reply({ type: 'progress', id, stage: 'despill' });
+    image = suppressSpill(image, chromaKey);
+  } else {
+    const stages = [
+      { stage: 'segmentation', run: () => colorSegmentation(image, options) },
+      { stage: 'morphology', run: (input: AlphaMask) => morphologicalOperations(input, options) },
+      { stage: 'refinement', run: (input: AlphaMask) => refineEdges(input, options) },
+    ] as const;
+
+    mask = { width: image.width, height: image.height, data: new Uint8ClampedArray(0) };
+    for (const { stage, run } of stages) {
+      await yieldToEvents();
+      if (isCancelled()) {
+        reply({ type: 'cancelled', id });
+        return;
+      }
+      reply({ type: 'progress', id, stage });
+      mask = run(mask);
+    }
+  }
+
+  const pixels = image.data.buffer as ArrayBuffer;
+  const maskBuffer = mask.data.buffer as ArrayBuffer;
+  reply(
+    { type: 'result', id, width: image.width, height: image.height, pixels, mask: maskBuffer },
+    [pixels, maskBuffer]
+  );
+}
+
+self.addEventListener('message', (event: MessageEvent<LocalSegmentRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    if (active.has(request.id)) {
+      cancelled.add(request.id);
+    }
+    return;
+  }
+
+  active.add(request.id);
+  segment(request)
+    .catch((error) => {
+      reply({ type: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) });
+    })
+    .finally(() => {
+      active.delete(request.id);
+      cancelled.delete(request.id);
+    });
+});
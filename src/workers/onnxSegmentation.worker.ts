@@ -0,0 +1,127 @@
+import * as ort from 'onnxruntime-web/wasm';
+import wasmUrl from 'onnxruntime-web/ort-wasm-simd-threaded.wasm?url';
+import wasmModuleUrl from 'onnxruntime-web/ort-wasm-simd-threaded.mjs?url';
+import type { SegmentRequest, SegmentResponse } from '../utils/onnxSegmenter';
+import type { SegmentationModel } from '../utils/segmentationModels';
+
+// Single-threaded CPU backend: works without cross-origin isolation
+ort.env.wasm.wasmPaths = { wasm: wasmUrl, mjs: wasmModuleUrl };
+ort.env.wasm.numThreads = 1;
+
+let session: ort.InferenceSession | null = null;
+let sessionModelUrl: string | null = null;
+
+function reply(message: SegmentResponse, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer });
+}
+
+async function getSession(model: SegmentationModel): Promise<ort.InferenceSession> {
+  if (session && sessionModelUrl === model.url) return session;
+
+  const response = await fetch(model.url);
+  if (!response.ok) {
+    throw new Error(`Segmentation model not found at ${model.url} (${response.status})`);
+  }
+  const bytes = new Uint8Array(await response.arrayBuffer());
+
+  await session?.release();
+  session = await ort.InferenceSession.create(bytes, { executionProviders: ['wasm'] });
+  sessionModelUrl = model.url;
+  return session;
+}
+
+// Bilinear resample of RGBA pixels into a normalized CHW float tensor
+function preprocess(pixels: Uint8ClampedArray, width: number, height: number, model: SegmentationModel): Float32Array {
+  const size = model.inputSize;
+  const plane = size * size;
+  const tensor = new Float32Array(plane * 3);
+  const scaleX = width / size;
+  const scaleY = height / size;
+
+  for (let y = 0; y < size; y++) {
+    const srcY = Math.min(height - 1, Math.max(0, (y + 0.5) * scaleY - 0.5));
+    const y0 = Math.floor(srcY);
+    const y1 = Math.min(height - 1, y0 + 1);
+    const fy = srcY - y0;
+
+    for (let x = 0; x < size; x++) {
+      const srcX = Math.min(width - 1, Math.max(0, (x + 0.5) * scaleX - 0.5));
+      const x0 = Math.floor(srcX);
+      const x1 = Math.min(width - 1, x0 + 1);
+      const fx = srcX - x0;
+
+      for (let c = 0; c < 3; c++) {
+        const top = pixels[(y0 * width + x0) * 4 + c] * (1 - fx) + pixels[(y0 * width + x1) * 4 + c] * fx;
+        const bottom = pixels[(y1 * width + x0) * 4 + c] * (1 - fx) + pixels[(y1 * width + x1) * 4 + c] * fx;
+        const value = (top * (1 - fy) + bottom * fy) / 255;
+        tensor[c * plane + y * size + x] = (value - model.mean[c]) / model.std[c];
+      }
+    }
+  }
+
+  return tensor;
+}
+
+// Bilinear upsample of the model's matte back to the source resolution
+function postprocess(output: Float32Array, size: number, width: number, height: number, normalize: boolean): Uint8ClampedArray {
+  let min = 0;
+  let max = 1;
+  if (normalize) {
+    min = Infinity;
+    max = -Infinity;
+    for (let i = 0; i < size * size; i++) {
+      min = Math.min(min, output[i]);
+      max = Math.max(max, output[i]);
+    }
+  }
+  const range = max - min || 1;
+
+  const mask = new Uint8ClampedArray(width * height);
+  const scaleX = size / width;
+  const scaleY = size / height;
+
+  for (let y = 0; y < height; y++) {
+    const srcY = Math.min(size - 1, Math.max(0, (y + 0.5) * scaleY - 0.5));
+    const y0 = Math.floor(srcY);
+    const y1 = Math.min(size - 1, y0 + 1);
+    const fy = srcY - y0;
+
+    for (let x = 0; x < width; x++) {
+      const srcX = Math.min(size - 1, Math.max(0, (x + 0.5) * scaleX - 0.5));
+      const x0 = Math.floor(srcX);
+      const x1 = Math.min(size - 1, x0 + 1);
+      const fx = srcX - x0;
+
+      const top = output[y0 * size + x0] * (1 - fx) + output[y0 * size + x1] * fx;
+      const bottom = output[y1 * size + x0] * (1 - fx) + output[y1 * size + x1] * fx;
+      mask[y * width + x] = Math.round(((top * (1 - fy) + bottom * fy - min) / range) * 255);
+    }
+  }
+
+  return mask;
+}
+
+async function segment(request: SegmentRequest) {
+  const { id, model, width, height } = request;
+
+  reply({ type: 'progress', id, stage: 'loading-model' });
+  const activeSession = await getSession(model);
+
+  reply({ type: 'progress', id, stage: 'inference' });
+  const input = preprocess(new Uint8ClampedArray(request.pixels), width, height, model);
+  const feeds = {
+    [activeSession.inputNames[0]]: new ort.Tensor('float32', input, [1, 3, model.inputSize, model.inputSize]),
+  };
+  const results = await activeSession.run(feeds);
+  const output = results[activeSession.outputNames[0]].data as Float32Array;
+
+  const mask = postprocess(output, model.inputSize, width, height, model.normalizeOutput);
+  reply({ type: 'result', id, mask: mask.buffer as ArrayBuffer }, [mask.buffer as ArrayBuffer]);
+}
+
+self.addEventListener('message', (event: MessageEvent<SegmentRequest>) => {
+  if (event.data.type !== 'segment') return;
+  segment(event.data).catch((error) => {
+    reply({ type: 'error', id: event.data.id, message: error instanceof Error ? error.message : String(error) });
+  });
+});
@@ -1,10 +1,18 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  worker: {
+    format: 'es',
+  },
   optimizeDeps: {
-    exclude: ['lucide-react'],
+    exclude: ['lucide-react', 'onnxruntime-web'],
+  },
+  test: {
+    // server/ and cli/ are separate packages with their own tests
+    include: ['src/**/*.test.ts'],
   },
 });